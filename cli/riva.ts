@@ -0,0 +1,217 @@
+import { createWriteStream } from 'node:fs';
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { parseArgs } from 'node:util';
+import {
+    DEFAULT_FILENAME_TEMPLATE, DEFAULT_NESTED_ZIP_DEPTH, EXPORT_PROFILES, IMAGE_FILE_REGEX, ZIP_FILE_REGEX,
+    buildExportGroups, buildManifestEntries, buildManifestRow, buildPartIndex, createDefaultRuleSet, createZip, extractArchive, formatBytes, getExportPath,
+    getExportProfile, getMappingReport, getPartIndexName, getPartNames, getProfileViolations, groupImages, isImportableFile,
+    parseSkuRuleSets, planZipParts, readMappingSheet, summarizeZipPart, validateFilenameTemplate,
+    type GroupedImage, type ManifestRow, type MappingSheet, type PreparedEntry, type SkuRuleSet, type ZipEntry,
+} from '../core';
+
+// Batch front end for the organizing core. It follows the same steps as the web app, so a run with
+// the same rules, template, prefix and profile produces the same folders and filenames.
+
+const USAGE = `Usage: riva organize <input dir|zip>... --out <file.zip> [options]
+
+Options:
+  --out <file.zip>         Archive to write (required)
+  --prefix <text>          Global filename prefix (default: eci)
+  --rules <rules.json>     SKU rules exported from the rule editor (default: built-in rules)
+  --rule-set <name>        Rule set to use when the rules file holds several
+  --mapping <sheet>        CSV or XLSX sheet of filename -> SKU (optionally position, role)
+  --template <template>    Filename template (default: ${DEFAULT_FILENAME_TEMPLATE})
+  --profile <id>           Export profile: ${EXPORT_PROFILES.map(profile => profile.id).join(', ')} (default: custom)
+  --folder-as-sku          Group by containing folder where there is one, below the input itself
+  --depth <n>              Nested ZIP depth to extract (default: ${DEFAULT_NESTED_ZIP_DEPTH})
+  --max-part-size <MB>     Split the archive into parts of at most this size
+  --manifest               Add manifest.csv and manifest.json to every archive
+  -h, --help               Show this help
+
+Image resizing and format conversion need a browser canvas and are only available in the web app.`;
+
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+interface InputFile {
+    file: File;
+    sourcePath?: string;
+}
+
+const readInputFile = async (filePath: string, sourcePath?: string): Promise<InputFile> => {
+    const data = await readFile(filePath);
+    return { file: new File([data], path.basename(filePath)), sourcePath };
+};
+
+// Mirrors the folder picker: paths start with the chosen folder's name. Entries are sorted so runs
+// are repeatable; browsers list directories in no particular order.
+const collectDirectory = async (directory: string, sourcePath: string): Promise<InputFile[]> => {
+    const entries = (await readdir(directory, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    const files: InputFile[] = [];
+    for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await collectDirectory(entryPath, `${sourcePath}/${entry.name}`));
+        } else if (entry.isFile() && isImportableFile(entry.name)) {
+            files.push(await readInputFile(entryPath, `${sourcePath}/${entry.name}`));
+        }
+    }
+    return files;
+};
+
+// Loose images come first and archive contents after them, in input order, as in the upload flow.
+const loadInputs = async (inputs: string[], maxDepth: number, warnings: string[]): Promise<GroupedImage[]> => {
+    const collected: InputFile[] = [];
+    for (const input of inputs) {
+        const info = await stat(input).catch(() => null);
+        if (!info) throw new Error(`Input not found: ${input}`);
+        if (info.isDirectory()) {
+            collected.push(...await collectDirectory(input, path.basename(path.resolve(input))));
+        } else if (isImportableFile(input)) {
+            collected.push(await readInputFile(input));
+        } else {
+            warnings.push(`Skipped ${input}: not an image or ZIP file.`);
+        }
+    }
+
+    const images = collected.filter(input => IMAGE_FILE_REGEX.test(input.file.name));
+    for (const archive of collected.filter(input => ZIP_FILE_REGEX.test(input.file.name))) {
+        const extracted = await extractArchive(archive.file, archive.sourcePath || archive.file.name, maxDepth, warnings);
+        images.push(...extracted.map(entry => ({ file: new File([entry.data], entry.name), sourcePath: entry.path })));
+    }
+    return images.map(({ file, sourcePath }) => ({ id: crypto.randomUUID(), file, sourcePath }));
+};
+
+const loadRuleSet = async (rulesPath: string | undefined, ruleSetName: string | undefined): Promise<SkuRuleSet> => {
+    if (!rulesPath) return createDefaultRuleSet();
+    let sets: SkuRuleSet[];
+    try {
+        sets = parseSkuRuleSets(JSON.parse(await readFile(rulesPath, 'utf8')));
+    } catch (err) {
+        throw new Error(`Failed to read rules from ${rulesPath}: ${err instanceof Error ? err.message : err}`);
+    }
+    if (!ruleSetName) return sets[0];
+    const set = sets.find(candidate => candidate.name === ruleSetName);
+    if (!set) throw new Error(`No rule set named "${ruleSetName}" in ${rulesPath}. Available: ${sets.map(candidate => candidate.name).join(', ')}.`);
+    return set;
+};
+
+const loadMappingSheet = async (sheetPath: string): Promise<MappingSheet> => {
+    const sheet = await readMappingSheet(new File([await readFile(sheetPath)], path.basename(sheetPath)));
+    if (sheet.rows.length === 0) throw new Error(`${sheetPath} has no usable rows.`);
+    return sheet;
+};
+
+const parseNonNegativeNumber = (value: string | undefined, option: string, fallback: number) => {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) throw new UsageError(`${option} must be a non-negative number.`);
+    return number;
+};
+
+const writeZip = async (entries: ZipEntry[], outPath: string) => {
+    const stream = createZip(entries).generateNodeStream({ type: 'nodebuffer', streamFiles: true });
+    await pipeline(stream, createWriteStream(outPath));
+};
+
+const ORGANIZE_OPTIONS = {
+    out: { type: 'string' },
+    prefix: { type: 'string', default: 'eci' },
+    rules: { type: 'string' },
+    'rule-set': { type: 'string' },
+    mapping: { type: 'string' },
+    template: { type: 'string', default: DEFAULT_FILENAME_TEMPLATE },
+    profile: { type: 'string', default: 'custom' },
+    'folder-as-sku': { type: 'boolean', default: false },
+    depth: { type: 'string' },
+    'max-part-size': { type: 'string' },
+    manifest: { type: 'boolean', default: false },
+} as const;
+
+const organize = async (args: string[]) => {
+    let parsed;
+    try {
+        parsed = parseArgs({ args, allowPositionals: true, options: ORGANIZE_OPTIONS });
+    } catch (err) {
+        throw new UsageError(err instanceof Error ? err.message : String(err));
+    }
+    const { values, positionals } = parsed;
+    if (positionals.length === 0) throw new UsageError('Give at least one input folder or ZIP file.');
+    if (!values.out) throw new UsageError('--out is required.');
+    if (!EXPORT_PROFILES.some(profile => profile.id === values.profile)) throw new UsageError(`Unknown profile "${values.profile}".`);
+
+    const profile = getExportProfile(values.profile);
+    const templateError = profile.template === null ? validateFilenameTemplate(values.template) : null;
+    if (templateError) throw new UsageError(templateError);
+    const maxDepth = parseNonNegativeNumber(values.depth, '--depth', DEFAULT_NESTED_ZIP_DEPTH);
+    const maxPartBytes = parseNonNegativeNumber(values['max-part-size'], '--max-part-size', 0) * 1024 * 1024;
+
+    const ruleSet = await loadRuleSet(values.rules, values['rule-set']);
+    const mapping = values.mapping ? await loadMappingSheet(values.mapping) : null;
+    const warnings: string[] = [];
+    const images = await loadInputs(positionals, maxDepth, warnings);
+    if (images.length === 0) throw new Error('No images found in the inputs.');
+
+    const groups = groupImages(images, { rules: ruleSet.rules, useFolderAsSku: values['folder-as-sku'], mapping });
+    if (mapping) {
+        const report = getMappingReport(mapping, images.map(image => image.file.name));
+        mapping.invalidRows.forEach(invalid => warnings.push(`${mapping.name} row ${invalid.row}: ${invalid.reason}`));
+        report.unmatchedRows.forEach(row => warnings.push(`${mapping.name} row ${row.row}: no file named ${row.filename}.`));
+        report.unmatchedFiles.forEach(filename => warnings.push(`${filename} is not in ${mapping.name}; grouped by the SKU rules.`));
+    }
+    groups.forEach((imageGroup, sku) => {
+        getProfileViolations(profile, imageGroup).forEach(violation => warnings.push(`${sku}: ${violation}`));
+    });
+
+    const exportGroups = buildExportGroups(groups, { profile, template: values.template, prefix: values.prefix });
+    const entries: PreparedEntry[] = [];
+    const manifestRows: ManifestRow[] = [];
+    for (const group of exportGroups) {
+        for (const [index, image] of group.images.entries()) {
+            const entry: PreparedEntry = { sku: group.sku, path: getExportPath(group, index), data: image.file };
+            entries.push(entry);
+            if (values.manifest) manifestRows.push(await buildManifestRow(entry, image, index + 1));
+        }
+    }
+
+    const parts = planZipParts(entries, maxPartBytes);
+    const outDir = path.dirname(values.out);
+    const partNames = getPartNames(path.basename(values.out), parts.length);
+    for (const [index, part] of parts.entries()) {
+        const partPaths = new Set(part.entries.map(entry => entry.path));
+        const manifestEntries = values.manifest ? buildManifestEntries(manifestRows.filter(row => partPaths.has(row.path))) : [];
+        await writeZip([...part.entries, ...manifestEntries], path.join(outDir, partNames[index]));
+    }
+    if (parts.length > 1) {
+        await writeFile(path.join(outDir, getPartIndexName(path.basename(values.out))), buildPartIndex(parts.map(summarizeZipPart), partNames));
+    }
+
+    warnings.forEach(warning => console.warn(`warning: ${warning}`));
+    const totalBytes = entries.reduce((total, entry) => total + entry.data.size, 0);
+    console.log(`Organized ${entries.length} image${entries.length !== 1 ? 's' : ''} into ${groups.size} group${groups.size !== 1 ? 's' : ''} (${formatBytes(totalBytes)}).`);
+    partNames.forEach(name => console.log(`  ${path.join(outDir, name)}`));
+};
+
+const main = async () => {
+    const [command, ...args] = process.argv.slice(2);
+    if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+        console.log(USAGE);
+        return;
+    }
+    try {
+        if (command !== 'organize') throw new UsageError(`Unknown command "${command}".`);
+        await organize(args);
+    } catch (err) {
+        console.error(`riva: ${err instanceof Error ? err.message : err}`);
+        if (err instanceof UsageError) console.error(`\n${USAGE}`);
+        process.exitCode = err instanceof UsageError ? 2 : 1;
+    }
+};
+
+main();
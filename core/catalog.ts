@@ -0,0 +1,163 @@
+import { toCsvRow } from './exportPlan';
+import type { ImageGroups } from './groups';
+import { normalizeHeader, readSpreadsheetRows } from './mapping';
+import { isMainImage } from './profiles';
+
+// The master list of valid SKUs. Group keys that aren't in it are usually typos, so each gets
+// ranked suggestions from the catalog.
+
+export interface CatalogEntry {
+    sku: string;
+    name: string;
+}
+
+export interface Catalog {
+    name: string;
+    entries: CatalogEntry[];
+    bySku: Map<string, CatalogEntry>;
+    // Entries keyed by the length of the lowercased SKU, so suggestions only compare SKUs that are close enough in length.
+    byLength: Map<number, CatalogEntry[]>;
+}
+
+export interface SkuSuggestion {
+    sku: string;
+    name: string;
+    distance: number;
+}
+
+export type CoverageIssue = 'missing' | 'too-few' | 'no-main';
+
+// A catalog SKU that needs (re)shooting.
+export interface CoverageRow {
+    sku: string;
+    name: string;
+    imageCount: number;
+    issues: CoverageIssue[];
+}
+
+export const DEFAULT_MIN_IMAGES = 4;
+
+export const COVERAGE_ISSUE_LABELS: Record<CoverageIssue, string> = {
+    'missing': 'No images',
+    'too-few': 'Too few images',
+    'no-main': 'No main image',
+};
+
+const SKU_HEADERS = ['sku', 'productsku', 'itemsku', 'productid', 'itemnumber', 'item', 'style', 'code'];
+const NAME_HEADERS = ['name', 'productname', 'title', 'producttitle', 'description', 'itemname'];
+const MAX_SUGGESTIONS = 5;
+
+export const createCatalog = (name: string, entries: CatalogEntry[]): Catalog => {
+    const bySku = new Map<string, CatalogEntry>();
+    entries.forEach(entry => {
+        if (!bySku.has(entry.sku)) bySku.set(entry.sku, entry);
+    });
+    const byLength = new Map<number, CatalogEntry[]>();
+    bySku.forEach(entry => {
+        const length = entry.sku.toLowerCase().length;
+        byLength.set(length, [...(byLength.get(length) || []), entry]);
+    });
+    return { name, entries: [...bySku.values()], bySku, byLength };
+};
+
+// Without a recognisable header the first column is the SKU and the second the product name.
+export const parseCatalogRows = (name: string, rows: string[][]): Catalog => {
+    const header = (rows[0] || []).map(normalizeHeader);
+    const headerSku = header.findIndex(cell => SKU_HEADERS.includes(cell));
+    const hasHeader = headerSku !== -1;
+    const skuColumn = hasHeader ? headerSku : 0;
+    const nameColumn = hasHeader ? header.findIndex(cell => NAME_HEADERS.includes(cell)) : 1;
+    const entries: CatalogEntry[] = [];
+    rows.slice(hasHeader ? 1 : 0).forEach(row => {
+        const sku = (row[skuColumn] || '').trim();
+        if (sku) entries.push({ sku, name: nameColumn === -1 ? '' : (row[nameColumn] || '').trim() });
+    });
+    return createCatalog(name, entries);
+};
+
+export const readCatalog = async (file: File): Promise<Catalog> => parseCatalogRows(file.name, await readSpreadsheetRows(file));
+
+// Optimal string alignment distance: insertions, deletions, substitutions and swaps of adjacent
+// characters (e.g. transposed digits) each cost 1. Gives up with Infinity once `max` is exceeded.
+export const getEditDistance = (a: string, b: string, max = Infinity): number => {
+    if (Math.abs(a.length - b.length) > max) return Infinity;
+    let previousPrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, previousPrevious[j - 2] + 1);
+            }
+            current[j] = value;
+            rowMinimum = Math.min(rowMinimum, value);
+        }
+        if (rowMinimum > max) return Infinity;
+        previousPrevious = previous;
+        previous = current;
+    }
+    return previous[b.length] <= max ? previous[b.length] : Infinity;
+};
+
+// Closest catalog SKUs, ignoring case. Allows roughly one edit per four characters.
+export const suggestCatalogSkus = (catalog: Catalog, sku: string): SkuSuggestion[] => {
+    const target = sku.toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(sku.length / 4));
+    const suggestions: SkuSuggestion[] = [];
+    for (let length = Math.max(1, target.length - maxDistance); length <= target.length + maxDistance; length++) {
+        catalog.byLength.get(length)?.forEach(entry => {
+            const distance = getEditDistance(target, entry.sku.toLowerCase(), maxDistance);
+            if (distance !== Infinity) suggestions.push({ sku: entry.sku, name: entry.name, distance });
+        });
+    }
+    return suggestions
+        .sort((a, b) => a.distance - b.distance || Math.abs(a.sku.length - sku.length) - Math.abs(b.sku.length - sku.length) || a.sku.localeCompare(b.sku))
+        .slice(0, MAX_SUGGESTIONS);
+};
+
+// Group keys missing from the catalog, each with its suggestions. Suggestions found in `cache` are
+// reused and new ones are added to it; the cache must only ever be used with this catalog.
+export const findUnknownSkus = (catalog: Catalog, skus: string[], cache = new Map<string, SkuSuggestion[]>()): Map<string, SkuSuggestion[]> => {
+    const unknown = new Map<string, SkuSuggestion[]>();
+    skus.forEach(sku => {
+        if (catalog.bySku.has(sku)) return;
+        let suggestions = cache.get(sku);
+        if (!suggestions) {
+            suggestions = suggestCatalogSkus(catalog, sku);
+            cache.set(sku, suggestions);
+        }
+        unknown.set(sku, suggestions);
+    });
+    return unknown;
+};
+
+// Only a mapping sheet can assign roles that leave a group without a main image.
+const hasMainImage = (images: { role?: string }[]) => images.some(isMainImage);
+
+// Catalog SKUs with no images, fewer than `minImages`, or no main image, in catalog order.
+export const getCatalogCoverage = (catalog: Catalog, groups: ImageGroups, minImages: number): CoverageRow[] => {
+    const rows: CoverageRow[] = [];
+    catalog.entries.forEach(entry => {
+        const images = groups.get(entry.sku) || [];
+        const issues: CoverageIssue[] = [];
+        if (images.length === 0) {
+            issues.push('missing');
+        } else {
+            if (images.length < minImages) issues.push('too-few');
+            if (!hasMainImage(images)) issues.push('no-main');
+        }
+        if (issues.length > 0) rows.push({ sku: entry.sku, name: entry.name, imageCount: images.length, issues });
+    });
+    return rows;
+};
+
+export const buildCoverageCsv = (rows: CoverageRow[], minImages: number): string => {
+    const lines = [toCsvRow(['sku', 'name', 'images', 'required', 'issues'])];
+    rows.forEach(row => lines.push(toCsvRow([
+        row.sku, row.name, row.imageCount, minImages, row.issues.map(issue => COVERAGE_ISSUE_LABELS[issue]).join('; '),
+    ])));
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,156 @@
+import type { ImageGroups, GroupedImage } from './groups';
+import { DEFAULT_IMAGE_PROCESSING, type ImageProcessingSettings } from './processing';
+import { buildGroupFilenames, getEffectiveTemplate, type ExportProfile } from './profiles';
+import type { ZipEntry } from './zip';
+
+// One folder of an export: `folder` is null when files go to the archive root.
+export interface ExportGroup<T extends GroupedImage = GroupedImage> {
+    sku: string;
+    folder: string | null;
+    images: T[];
+    filenames: string[];
+}
+
+export interface ExportNamingOptions {
+    profile: ExportProfile;
+    // The user's template; profiles with their own template ignore it.
+    template: string;
+    prefix: string;
+    processing?: ImageProcessingSettings;
+}
+
+export interface PreparedEntry extends ZipEntry {
+    sku: string;
+}
+
+export interface ZipPart {
+    entries: PreparedEntry[];
+    skus: string[];
+    bytes: number;
+}
+
+// What the part index needs from a part once its data has been zipped and let go.
+export interface ZipPartSummary {
+    skus: string[];
+    imageCounts: Record<string, number>;
+}
+
+export interface ZipPartPacker {
+    // Takes the next entry in export order and returns the parts that are now complete.
+    add: (entry: PreparedEntry) => ZipPart[];
+    // Places the entries still held back and returns the remaining parts.
+    finish: () => ZipPart[];
+}
+
+// Names every group for export. Throws before any image is processed if the template produces
+// bad names, or names that clash across groups in a flat layout.
+export const buildExportGroups = <T extends GroupedImage>(groups: ImageGroups<T>, options: ExportNamingOptions): ExportGroup<T>[] => {
+    const { profile, prefix, processing = DEFAULT_IMAGE_PROCESSING } = options;
+    const template = getEffectiveTemplate(profile, options.template);
+    const usedFlatNames = new Set<string>();
+    const exportGroups: ExportGroup<T>[] = [];
+    groups.forEach((images, sku) => {
+        const filenames = buildGroupFilenames(template, sku, images, prefix, profile.roleStyle, processing);
+        if (profile.folderLayout === 'flat') {
+            filenames.forEach(filename => {
+                const key = filename.toLowerCase();
+                if (usedFlatNames.has(key)) {
+                    throw new Error(`Filename "${filename}" is used by more than one group. Include {sku} in the template for a flat layout.`);
+                }
+                usedFlatNames.add(key);
+            });
+        }
+        exportGroups.push({ sku, folder: profile.folderLayout === 'flat' ? null : sku, images, filenames });
+    });
+    return exportGroups;
+};
+
+export const getExportPath = (group: ExportGroup<GroupedImage>, index: number) =>
+    group.folder ? `${group.folder}/${group.filenames[index]}` : group.filenames[index];
+
+const textEncoder = new TextEncoder();
+
+// Data plus a generous allowance for the local header, central directory record and data descriptor.
+export const estimateZipEntryBytes = (entry: ZipEntry) => entry.data.size + 128 + 2 * textEncoder.encode(entry.path).length;
+
+// Packs entries into parts in export order. A SKU always stays in one part when it fits in one;
+// only a SKU that is larger than the limit by itself is spread over consecutive parts. Entries are
+// held back only until their SKU is complete, so a caller can zip each part as soon as it closes.
+export const createZipPartPacker = (maxPartBytes: number): ZipPartPacker => {
+    let closed: ZipPart[] = [];
+    let current: ZipPart = { entries: [], skus: [], bytes: 0 };
+    let pending: PreparedEntry[] = [];
+    const startNewPart = () => {
+        if (current.entries.length > 0) closed.push(current);
+        current = { entries: [], skus: [], bytes: 0 };
+    };
+    const addEntry = (entry: PreparedEntry, bytes: number) => {
+        current.entries.push(entry);
+        current.bytes += bytes;
+        if (!current.skus.includes(entry.sku)) current.skus.push(entry.sku);
+    };
+    const placePending = () => {
+        const sizes = pending.map(estimateZipEntryBytes);
+        const groupBytes = sizes.reduce((total, size) => total + size, 0);
+        if (maxPartBytes <= 0 || groupBytes <= maxPartBytes) {
+            if (maxPartBytes > 0 && current.bytes + groupBytes > maxPartBytes) startNewPart();
+            pending.forEach((entry, index) => addEntry(entry, sizes[index]));
+        } else {
+            pending.forEach((entry, index) => {
+                if (current.bytes + sizes[index] > maxPartBytes) startNewPart();
+                addEntry(entry, sizes[index]);
+            });
+        }
+        pending = [];
+    };
+    const takeClosed = () => {
+        const parts = closed;
+        closed = [];
+        return parts;
+    };
+
+    return {
+        add: entry => {
+            if (pending.length > 0 && pending[0].sku !== entry.sku) placePending();
+            pending.push(entry);
+            return takeClosed();
+        },
+        finish: () => {
+            placePending();
+            startNewPart();
+            return takeClosed();
+        },
+    };
+};
+
+export const planZipParts = (entries: PreparedEntry[], maxPartBytes: number): ZipPart[] => {
+    const packer = createZipPartPacker(maxPartBytes);
+    return [...entries.flatMap(packer.add), ...packer.finish()];
+};
+
+export const summarizeZipPart = (part: ZipPart): ZipPartSummary => {
+    const imageCounts: Record<string, number> = {};
+    part.entries.forEach(entry => imageCounts[entry.sku] = (imageCounts[entry.sku] || 0) + 1);
+    return { skus: part.skus, imageCounts };
+};
+
+export const getPartName = (zipName: string, partNumber: number) => `${zipName.replace(/\.zip$/i, '')}-part${partNumber}.zip`;
+
+// "<base>.zip" for a single part, otherwise "<base>-part1.zip", "<base>-part2.zip", ...
+export const getPartNames = (zipName: string, partCount: number): string[] =>
+    partCount > 1 ? Array.from({ length: partCount }, (_, index) => getPartName(zipName, index + 1)) : [zipName];
+
+export const getPartIndexName = (zipName: string) => `${zipName.replace(/\.zip$/i, '')}-index.csv`;
+
+export const toCsvRow = (values: (string | number)[]) => values.map(value => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}).join(',');
+
+export const buildPartIndex = (parts: ZipPartSummary[], partNames: string[]): string => {
+    const rows = [toCsvRow(['part', 'zip_file', 'sku', 'images'])];
+    parts.forEach((part, index) => {
+        part.skus.forEach(sku => rows.push(toCsvRow([index + 1, partNames[index], sku, part.imageCounts[sku]])));
+    });
+    return rows.join('\n') + '\n';
+};
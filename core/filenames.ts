@@ -0,0 +1,107 @@
+export interface FilenameContext {
+    seq: number;
+    sku: string;
+    prefix: string;
+    file: File;
+    role: string;
+    // Overrides the file's own extension, e.g. after format conversion.
+    ext?: string;
+}
+
+export const FILENAME_TOKENS = ['seq', 'sku', 'prefix', 'basename', 'ext', 'role'] as const;
+export const DEFAULT_FILENAME_TEMPLATE = '{seq}-{prefix}-{basename}.{ext}';
+const FILENAME_TOKEN_REGEX = /\{([a-z]+)(?::([^{}]*))?\}/gi;
+const ILLEGAL_FILENAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]/;
+const FILENAME_SEPARATORS = '-_. ';
+
+type TemplatePart = { literal: string } | { token: string; modifier?: string };
+
+export const splitFilename = (filename: string) => {
+    const dotIndex = filename.lastIndexOf('.');
+    if (dotIndex <= 0) return { basename: filename, ext: '' };
+    return { basename: filename.slice(0, dotIndex), ext: filename.slice(dotIndex + 1) };
+};
+
+const parseFilenameTemplate = (template: string): TemplatePart[] => {
+    const parts: TemplatePart[] = [];
+    let lastIndex = 0;
+    for (const match of template.matchAll(FILENAME_TOKEN_REGEX)) {
+        if (match.index! > lastIndex) parts.push({ literal: template.slice(lastIndex, match.index) });
+        parts.push({ token: match[1].toLowerCase(), modifier: match[2] });
+        lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < template.length) parts.push({ literal: template.slice(lastIndex) });
+    return parts;
+};
+
+// Returns a human-readable problem with the template, or null when it can be used.
+export const validateFilenameTemplate = (template: string): string | null => {
+    if (!template.trim()) return 'Template is empty.';
+    const parts = parseFilenameTemplate(template);
+    for (const part of parts) {
+        if ('literal' in part) {
+            if (/[{}]/.test(part.literal)) return 'Unbalanced or malformed { } in template.';
+            if (ILLEGAL_FILENAME_CHARS.test(part.literal)) return `Template contains an illegal character: "${part.literal.match(ILLEGAL_FILENAME_CHARS)![0]}".`;
+            continue;
+        }
+        if (!(FILENAME_TOKENS as readonly string[]).includes(part.token)) return `Unknown token {${part.token}}.`;
+        const { token, modifier } = part;
+        if (modifier === undefined) continue;
+        if (token === 'seq' && !/^\d{1,2}$/.test(modifier)) return `{seq:${modifier}} must be a pad width such as {seq:02}.`;
+        if (token !== 'seq' && !['upper', 'lower'].includes(modifier)) return `{${token}:${modifier}} only supports the "upper" and "lower" modifiers.`;
+    }
+    return null;
+};
+
+const renderTokenValue = (token: string, modifier: string | undefined, context: FilenameContext): string => {
+    const { basename, ext: originalExt } = splitFilename(context.file.name);
+    const ext = context.ext ?? originalExt;
+    const values: Record<string, string> = {
+        seq: String(context.seq),
+        sku: context.sku,
+        prefix: context.prefix,
+        basename,
+        ext,
+        role: context.role,
+    };
+    const value = values[token] ?? '';
+    if (token === 'seq' && modifier) return value.padStart(Number(modifier), '0');
+    if (modifier === 'upper') return value.toUpperCase();
+    if (modifier === 'lower') return value.toLowerCase();
+    return value;
+};
+
+// Builds a single exported filename. An empty token swallows the separator that follows it
+// (or the one before it at the end), so "{seq}-{prefix}-{basename}" works without a prefix.
+export const renderFilename = (template: string, context: FilenameContext): string => {
+    const templateError = validateFilenameTemplate(template);
+    if (templateError) throw new Error(templateError);
+
+    const parts = parseFilenameTemplate(template);
+    let output = '';
+    let dropNextSeparator = false;
+    parts.forEach((part, index) => {
+        if ('literal' in part) {
+            const literal = dropNextSeparator && FILENAME_SEPARATORS.includes(part.literal[0]) ? part.literal.slice(1) : part.literal;
+            output += literal;
+            dropNextSeparator = false;
+            return;
+        }
+        const value = renderTokenValue(part.token, part.modifier, context);
+        if (!value && index === parts.length - 1 && FILENAME_SEPARATORS.includes(output.slice(-1))) {
+            output = output.slice(0, -1);
+        }
+        dropNextSeparator = !value;
+        output += value;
+    });
+
+    output = output.trim();
+    if (!output || output === '.' || output === '..') {
+        throw new Error(`Template produced an empty filename for ${context.file.name}.`);
+    }
+    const illegal = output.match(ILLEGAL_FILENAME_CHARS);
+    if (illegal) {
+        throw new Error(`Filename "${output}" for ${context.file.name} contains an illegal character: "${illegal[0]}".`);
+    }
+    return output;
+};
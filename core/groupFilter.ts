@@ -0,0 +1,100 @@
+import type { GroupedImage, ImageGroups } from './groups';
+import { UNIDENTIFIED_SKU } from './skuRules';
+
+// Narrows and orders the groups shown in the results grid. Exports use the same filter, so a subset
+// can be sent on its own.
+
+export type GroupStatusFilter = 'all' | 'unidentified' | 'issues' | 'no-issues';
+export type GroupSort = 'original' | 'sku-asc' | 'sku-desc' | 'count-desc' | 'count-asc' | 'modified';
+
+export interface GroupFilter {
+    query: string;
+    // Treat `query` as a case-insensitive regular expression instead of plain text.
+    useRegex: boolean;
+    // Image count bounds; null leaves that side open.
+    minImages: number | null;
+    maxImages: number | null;
+    status: GroupStatusFilter;
+    sort: GroupSort;
+}
+
+// What the filter needs to know beyond the groups themselves.
+export interface GroupFilterContext {
+    hasIssues: (sku: string) => boolean;
+    // Timestamp of the group's last change; groups without one sort last.
+    getModifiedAt: (sku: string) => number | undefined;
+}
+
+export const DEFAULT_GROUP_FILTER: GroupFilter = { query: '', useRegex: false, minImages: null, maxImages: null, status: 'all', sort: 'original' };
+
+export const GROUP_STATUS_LABELS: Record<GroupStatusFilter, string> = {
+    'all': 'All groups',
+    'unidentified': UNIDENTIFIED_SKU,
+    'issues': 'With issues',
+    'no-issues': 'Without issues',
+};
+
+export const GROUP_SORT_LABELS: Record<GroupSort, string> = {
+    'original': 'Original order',
+    'sku-asc': 'SKU A–Z',
+    'sku-desc': 'SKU Z–A',
+    'count-desc': 'Most images',
+    'count-asc': 'Fewest images',
+    'modified': 'Recently changed',
+};
+
+const compileQuery = (filter: GroupFilter): RegExp | null => {
+    if (!filter.query) return null;
+    const source = filter.useRegex ? filter.query : filter.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, 'i');
+};
+
+export const getGroupFilterError = (filter: GroupFilter): string | null => {
+    try {
+        compileQuery(filter);
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid regular expression.';
+    }
+};
+
+// Sorting alone doesn't count: every group is still shown and exported.
+export const isGroupFilterActive = (filter: GroupFilter) =>
+    filter.query !== '' || filter.minImages !== null || filter.maxImages !== null || filter.status !== 'all';
+
+// The SKUs that pass the filter, in display order. An invalid regular expression matches nothing.
+export const filterGroups = <T extends GroupedImage>(groups: ImageGroups<T>, filter: GroupFilter, context: GroupFilterContext): string[] => {
+    let query: RegExp | null;
+    try {
+        query = compileQuery(filter);
+    } catch {
+        return [];
+    }
+    const skus = [...groups.keys()].filter(sku => {
+        const count = groups.get(sku)!.length;
+        if (query && !query.test(sku)) return false;
+        if (filter.minImages !== null && count < filter.minImages) return false;
+        if (filter.maxImages !== null && count > filter.maxImages) return false;
+        if (filter.status === 'unidentified') return sku === UNIDENTIFIED_SKU;
+        if (filter.status === 'issues') return context.hasIssues(sku);
+        if (filter.status === 'no-issues') return !context.hasIssues(sku);
+        return true;
+    });
+
+    const compareSku = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+    const count = (sku: string) => groups.get(sku)!.length;
+    switch (filter.sort) {
+        case 'sku-asc': return skus.sort(compareSku);
+        case 'sku-desc': return skus.sort((a, b) => compareSku(b, a));
+        case 'count-desc': return skus.sort((a, b) => count(b) - count(a) || compareSku(a, b));
+        case 'count-asc': return skus.sort((a, b) => count(a) - count(b) || compareSku(a, b));
+        case 'modified': return skus.sort((a, b) => (context.getModifiedAt(b) ?? -Infinity) - (context.getModifiedAt(a) ?? -Infinity));
+        default: return skus;
+    }
+};
+
+// The groups that pass the filter, in their original order.
+export const getFilteredGroups = <T extends GroupedImage>(groups: ImageGroups<T>, visibleSkus: string[]): ImageGroups<T> => {
+    const visible = new Set(visibleSkus);
+    return new Map([...groups].filter(([sku]) => visible.has(sku)));
+};
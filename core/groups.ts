@@ -0,0 +1,208 @@
+import { findMappingRow, type MappingSheet } from './mapping';
+import { getSkuFromFilename, type SkuRule } from './skuRules';
+import { getFolderFromSourcePath } from './sources';
+
+// The parts of an image the organizer needs. The UI adds its preview URL on top.
+export interface GroupedImage {
+    id: string;
+    file: File;
+    prefix?: string;
+    // Overrides the computed {role} token, e.g. from a mapping sheet.
+    role?: string;
+    // Where the file came from, e.g. "export.zip/SKU-1/photo.jpg"; undefined for loose uploads.
+    sourcePath?: string;
+}
+
+// SKU -> images in export order. Map insertion order is the group order.
+export type ImageGroups<T extends GroupedImage = GroupedImage> = Map<string, T[]>;
+
+export interface GroupingOptions {
+    rules: SkuRule[];
+    // Use the containing folder (or nested archive) as the SKU when there is one.
+    useFolderAsSku: boolean;
+    // Filename -> SKU assignments that take precedence over folders and rules.
+    mapping?: MappingSheet | null;
+}
+
+export const getGroupName = (image: GroupedImage, options: GroupingOptions): string => {
+    const mappingRow = options.mapping ? findMappingRow(options.mapping, image.file.name) : undefined;
+    if (mappingRow) return mappingRow.sku;
+    if (options.useFolderAsSku) {
+        const folder = getFolderFromSourcePath(image.sourcePath);
+        if (folder) return folder;
+    }
+    return getSkuFromFilename(image.file.name, options.rules).sku;
+};
+
+// All operations below are immutable and return `groups` itself when nothing changes, so callers
+// can tell a no-op apart from an edit.
+
+export const addImagesToGroups = <T extends GroupedImage>(groups: ImageGroups<T>, images: T[], options: GroupingOptions): ImageGroups<T> => {
+    if (images.length === 0) return groups;
+    const next = new Map(groups);
+    images.forEach(image => {
+        const groupName = getGroupName(image, options);
+        const role = options.mapping ? findMappingRow(options.mapping, image.file.name)?.role : undefined;
+        next.set(groupName, [...(next.get(groupName) || []), role ? { ...image, role } : image]);
+    });
+    return next;
+};
+
+// Groups images from scratch. Images with a mapping-sheet position are put in that order at the
+// front of their group; the rest follow in upload order.
+export const groupImages = <T extends GroupedImage>(images: T[], options: GroupingOptions): ImageGroups<T> => {
+    const groups = addImagesToGroups(new Map(), images, options);
+    const mapping = options.mapping;
+    if (!mapping) return groups;
+    const getPosition = (image: T) => findMappingRow(mapping, image.file.name)?.position ?? Infinity;
+    groups.forEach((imageGroup, sku) => groups.set(sku, [...imageGroup].sort((a, b) => getPosition(a) - getPosition(b))));
+    return groups;
+};
+
+// Renames a group in place, or merges it into `newSku` when that group already exists.
+export const renameGroup = <T extends GroupedImage>(groups: ImageGroups<T>, oldSku: string, newSku: string): ImageGroups<T> => {
+    if (!newSku || oldSku === newSku || !groups.has(oldSku)) return groups;
+    if (groups.has(newSku)) return mergeGroups(groups, oldSku, newSku);
+    return new Map([...groups].map(([sku, images]) => [sku === oldSku ? newSku : sku, images]));
+};
+
+export const mergeGroups = <T extends GroupedImage>(groups: ImageGroups<T>, sourceSku: string, targetSku: string): ImageGroups<T> => {
+    if (sourceSku === targetSku || !groups.has(sourceSku) || !groups.has(targetSku)) return groups;
+    const next = new Map(groups);
+    next.set(targetSku, [...next.get(targetSku)!, ...next.get(sourceSku)!]);
+    next.delete(sourceSku);
+    return next;
+};
+
+export const removeGroup = <T extends GroupedImage>(groups: ImageGroups<T>, sku: string): ImageGroups<T> => {
+    if (!groups.has(sku)) return groups;
+    const next = new Map(groups);
+    next.delete(sku);
+    return next;
+};
+
+// Puts the listed groups first, in the given order; unlisted groups keep their order after them.
+export const reorderGroups = <T extends GroupedImage>(groups: ImageGroups<T>, skus: string[]): ImageGroups<T> => {
+    const current = [...groups.keys()];
+    const order = [...new Set([...skus.filter(sku => groups.has(sku)), ...current])];
+    if (order.every((sku, index) => sku === current[index])) return groups;
+    return new Map(order.map(sku => [sku, groups.get(sku)!]));
+};
+
+// Moves a group right before or after another one. Group order is export order.
+export const moveGroup = <T extends GroupedImage>(groups: ImageGroups<T>, sku: string, targetSku: string, placement: 'before' | 'after'): ImageGroups<T> => {
+    if (sku === targetSku || !groups.has(sku) || !groups.has(targetSku)) return groups;
+    const order = [...groups.keys()].filter(key => key !== sku);
+    order.splice(order.indexOf(targetSku) + (placement === 'after' ? 1 : 0), 0, sku);
+    return reorderGroups(groups, order);
+};
+
+// Moves an image within or between groups. A group left empty is removed.
+export const moveImage = <T extends GroupedImage>(groups: ImageGroups<T>, sourceSku: string, sourceIndex: number, targetSku: string, targetIndex: number): ImageGroups<T> => {
+    const sourceImages = [...(groups.get(sourceSku) || [])];
+    if (sourceIndex < 0 || sourceIndex >= sourceImages.length) return groups;
+    if (sourceSku === targetSku && sourceIndex === targetIndex) return groups;
+
+    const next = new Map(groups);
+    const [moved] = sourceImages.splice(sourceIndex, 1);
+    if (sourceSku === targetSku) {
+        sourceImages.splice(targetIndex, 0, moved);
+        next.set(sourceSku, sourceImages);
+        return next;
+    }
+    const targetImages = [...(next.get(targetSku) || [])];
+    targetImages.splice(targetIndex, 0, moved);
+    next.set(targetSku, targetImages);
+    if (sourceImages.length === 0) {
+        next.delete(sourceSku);
+    } else {
+        next.set(sourceSku, sourceImages);
+    }
+    return next;
+};
+
+// Inserts a copy of the image right after the original. The copy shares the file but gets a new id.
+export const duplicateImage = <T extends GroupedImage>(groups: ImageGroups<T>, sku: string, index: number): ImageGroups<T> => {
+    const images = groups.get(sku);
+    const original = images?.[index];
+    if (!images || !original) return groups;
+    const copy: T = { ...original, id: crypto.randomUUID() };
+    return new Map(groups).set(sku, [...images.slice(0, index + 1), copy, ...images.slice(index + 1)]);
+};
+
+// Removes an image by id. A group left empty is removed.
+export const removeImage = <T extends GroupedImage>(groups: ImageGroups<T>, sku: string, imageId: string): ImageGroups<T> => {
+    const images = groups.get(sku);
+    if (!images || !images.some(image => image.id === imageId)) return groups;
+    const next = new Map(groups);
+    const remaining = images.filter(image => image.id !== imageId);
+    if (remaining.length > 0) {
+        next.set(sku, remaining);
+    } else {
+        next.delete(sku);
+    }
+    return next;
+};
+
+export const updateImage = <T extends GroupedImage>(groups: ImageGroups<T>, sku: string, imageId: string, changes: Partial<T>): ImageGroups<T> => {
+    const images = groups.get(sku);
+    if (!images || !images.some(image => image.id === imageId)) return groups;
+    return new Map(groups).set(sku, images.map(image => image.id === imageId ? { ...image, ...changes } : image));
+};
+
+// --- Bulk operations by image id, across groups ---
+
+// Rebuilds only the groups holding one of the images. A group left empty is removed.
+const updateGroupsWithImages = <T extends GroupedImage>(groups: ImageGroups<T>, imageIds: ReadonlySet<string>, update: (images: T[]) => T[]): ImageGroups<T> => {
+    let changed = false;
+    const next: ImageGroups<T> = new Map();
+    groups.forEach((images, sku) => {
+        if (!images.some(image => imageIds.has(image.id))) {
+            next.set(sku, images);
+            return;
+        }
+        changed = true;
+        const updated = update(images);
+        if (updated.length > 0) next.set(sku, updated);
+    });
+    return changed ? next : groups;
+};
+
+export const removeImages = <T extends GroupedImage>(groups: ImageGroups<T>, imageIds: ReadonlySet<string>): ImageGroups<T> =>
+    updateGroupsWithImages(groups, imageIds, images => images.filter(image => !imageIds.has(image.id)));
+
+export const updateImages = <T extends GroupedImage>(groups: ImageGroups<T>, imageIds: ReadonlySet<string>, changes: Partial<T>): ImageGroups<T> =>
+    updateGroupsWithImages(groups, imageIds, images => images.map(image => imageIds.has(image.id) ? { ...image, ...changes } : image));
+
+// Each copy goes right after its original.
+export const duplicateImages = <T extends GroupedImage>(groups: ImageGroups<T>, imageIds: ReadonlySet<string>): ImageGroups<T> =>
+    updateGroupsWithImages(groups, imageIds, images => images.flatMap(image => imageIds.has(image.id) ? [image, { ...image, id: crypto.randomUUID() }] : [image]));
+
+// Appends the images to `targetSku` in their current order. Images already in the target stay
+// where they are. A new target group is placed right after the first group images come from.
+export const moveImagesToGroup = <T extends GroupedImage>(groups: ImageGroups<T>, imageIds: ReadonlySet<string>, targetSku: string): ImageGroups<T> => {
+    if (!targetSku) return groups;
+    const moved: T[] = [];
+    const next: ImageGroups<T> = new Map();
+    groups.forEach((images, sku) => {
+        const taken = sku === targetSku ? [] : images.filter(image => imageIds.has(image.id));
+        if (taken.length === 0) {
+            next.set(sku, images);
+            return;
+        }
+        const remaining = images.filter(image => !imageIds.has(image.id));
+        if (remaining.length > 0) next.set(sku, remaining);
+        if (!groups.has(targetSku) && !next.has(targetSku)) next.set(targetSku, []);
+        moved.push(...taken);
+    });
+    if (moved.length === 0) return groups;
+    return next.set(targetSku, [...(next.get(targetSku) || []), ...moved]);
+};
+
+// `base`, or `base-2`, `base-3`... when that name is taken.
+export const getUniqueGroupName = (groups: ImageGroups, base: string): string => {
+    if (!groups.has(base)) return base;
+    let suffix = 2;
+    while (groups.has(`${base}-${suffix}`)) suffix++;
+    return `${base}-${suffix}`;
+};
@@ -0,0 +1,16 @@
+// Framework-free organizing core shared by the web app and the `riva` CLI. Nothing in here may
+// touch the DOM, React or browser storage.
+export * from './sources';
+export * from './skuRules';
+export * from './filenames';
+export * from './processing';
+export * from './profiles';
+export * from './groups';
+export * from './groupFilter';
+export * from './mapping';
+export * from './catalog';
+export * from './similarity';
+export * from './quality';
+export * from './exportPlan';
+export * from './manifest';
+export * from './zip';
@@ -0,0 +1,125 @@
+import { toCsvRow, type PreparedEntry } from './exportPlan';
+import type { GroupedImage } from './groups';
+import { ZIP_FILE_REGEX } from './sources';
+import type { ZipEntry } from './zip';
+
+// A manifest describes every exported file so downstream systems can map final filenames back
+// to SKUs, order and originals without opening the images.
+
+export interface ManifestRow {
+    sku: string;
+    seq: number;
+    filename: string;
+    // Location inside the export, including the SKU folder when there is one.
+    path: string;
+    originalFilename: string;
+    // Archive chain the original came from, e.g. "export.zip/inner.zip"; empty for loose files.
+    sourceArchive: string;
+    // Pixel size as stored in the exported file; null when the format isn't recognised.
+    width: number | null;
+    height: number | null;
+    bytes: number;
+    sha256: string;
+}
+
+export const MANIFEST_CSV_NAME = 'manifest.csv';
+export const MANIFEST_JSON_NAME = 'manifest.json';
+
+export const getSourceArchive = (sourcePath: string | undefined): string => {
+    const segments = (sourcePath || '').split('/');
+    let lastArchive = -1;
+    segments.slice(0, -1).forEach((segment, index) => {
+        if (ZIP_FILE_REGEX.test(segment)) lastArchive = index;
+    });
+    return segments.slice(0, lastArchive + 1).join('/');
+};
+
+const toHex = (bytes: ArrayBuffer) => [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: Blob | ArrayBuffer): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', data instanceof Blob ? await data.arrayBuffer() : data));
+
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Reads the pixel size from the file header of a JPEG, PNG, GIF or WebP without decoding it.
+// EXIF orientation is not applied, so rotated JPEGs report their stored size.
+export const readImageDimensions = (buffer: ArrayBuffer): { width: number; height: number } | null => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    if (bytes.length >= 24 && bytes[0] === 0x89 && readAscii(bytes, 1, 3) === 'PNG') {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (bytes.length >= 10 && readAscii(bytes, 0, 4) === 'GIF8') {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (bytes.length >= 30 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') {
+        const chunk = readAscii(bytes, 12, 4);
+        if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        if (chunk === 'VP8L') {
+            const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+            return { width: 1 + (((b1 & 0x3f) << 8) | b0), height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)) };
+        }
+        if (chunk === 'VP8X') {
+            const read24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+            return { width: 1 + read24(24), height: 1 + read24(27) };
+        }
+        return null;
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+            if (bytes[offset] !== 0xff) return null;
+            const marker = bytes[offset + 1];
+            if (marker === 0xff) {
+                offset++;
+                continue;
+            }
+            if (JPEG_SOF_MARKERS.has(marker)) {
+                return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+            // Standalone markers carry no length.
+            if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+                offset += 2;
+                continue;
+            }
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    }
+    return null;
+};
+
+export const buildManifestRow = async (entry: PreparedEntry, image: GroupedImage, seq: number): Promise<ManifestRow> => {
+    const buffer = await entry.data.arrayBuffer();
+    const dimensions = readImageDimensions(buffer);
+    return {
+        sku: entry.sku,
+        seq,
+        filename: entry.path.split('/').pop() || entry.path,
+        path: entry.path,
+        originalFilename: image.file.name,
+        sourceArchive: getSourceArchive(image.sourcePath),
+        width: dimensions?.width ?? null,
+        height: dimensions?.height ?? null,
+        bytes: entry.data.size,
+        sha256: await sha256Hex(buffer),
+    };
+};
+
+export const buildManifestCsv = (rows: ManifestRow[]): string => {
+    const lines = [toCsvRow(['sku', 'seq', 'filename', 'path', 'original_filename', 'source_archive', 'width', 'height', 'bytes', 'sha256'])];
+    rows.forEach(row => lines.push(toCsvRow([
+        row.sku, row.seq, row.filename, row.path, row.originalFilename, row.sourceArchive, row.width ?? '', row.height ?? '', row.bytes, row.sha256,
+    ])));
+    return lines.join('\n') + '\n';
+};
+
+export const buildManifestJson = (rows: ManifestRow[], generatedAt = new Date()): string =>
+    JSON.stringify({ generatedAt: generatedAt.toISOString(), count: rows.length, images: rows }, null, 2) + '\n';
+
+// The manifest files for the given rows, placed at the root of the export.
+export const buildManifestEntries = (rows: ManifestRow[]): ZipEntry[] => [
+    { path: MANIFEST_CSV_NAME, data: new Blob([buildManifestCsv(rows)], { type: 'text/csv' }) },
+    { path: MANIFEST_JSON_NAME, data: new Blob([buildManifestJson(rows)], { type: 'application/json' }) },
+];
@@ -0,0 +1,255 @@
+import JSZip from 'jszip';
+import { splitFilename } from './filenames';
+
+// A spreadsheet that assigns images to SKUs by filename, for files whose names carry no SKU
+// (e.g. IMG_4821.jpg). Matching rows win over the SKU rules.
+
+export interface MappingRow {
+    // 1-based row number in the sheet, so problems can be pointed at.
+    row: number;
+    filename: string;
+    sku: string;
+    // 1-based position within the SKU's images.
+    position?: number;
+    // Used as the {role} token instead of the computed one.
+    role?: string;
+}
+
+export interface InvalidMappingRow {
+    row: number;
+    reason: string;
+}
+
+export interface MappingSheet {
+    name: string;
+    rows: MappingRow[];
+    invalidRows: InvalidMappingRow[];
+    // Lower-cased filename -> row.
+    lookup: Map<string, MappingRow>;
+}
+
+export interface MappingReport {
+    matchedFiles: number;
+    // Sheet rows that matched none of the files.
+    unmatchedRows: MappingRow[];
+    // Files the sheet doesn't mention; they fall back to the SKU rules.
+    unmatchedFiles: string[];
+}
+
+export const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const COLUMN_ALIASES = {
+    filename: ['filename', 'file', 'image', 'imagename', 'imagefile', 'photo', 'originalfilename', 'name'],
+    sku: ['sku', 'productsku', 'itemsku', 'product', 'productid', 'itemnumber', 'item', 'style'],
+    position: ['position', 'pos', 'seq', 'sequence', 'order', 'sortorder', 'index'],
+    role: ['role', 'imagerole', 'imagetype', 'view'],
+};
+
+type MappingColumn = keyof typeof COLUMN_ALIASES;
+
+// --- CSV ---
+const detectDelimiter = (text: string) => {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+    return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and line breaks.
+export const parseCsv = (text: string): string[][] => {
+    const input = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(input);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let index = 0; index < input.length; index++) {
+        const char = input[index];
+        if (inQuotes) {
+            if (char === '"' && input[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[index + 1] === '\n') index++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+// --- XLSX ---
+const decodeXml = (value: string) => value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Concatenates every <t> run, which covers both plain and rich-text strings.
+const readXmlText = (xml: string) => [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+
+const getColumnIndex = (cellRef: string) => {
+    const letters = cellRef.replace(/\d+$/, '').toUpperCase();
+    return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Finds the first worksheet in workbook order, falling back to sheet1.xml.
+const getFirstSheetPath = async (zip: JSZip): Promise<string> => {
+    const workbook = await zip.file('xl/workbook.xml')?.async('string');
+    const rels = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+    const relId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    const relationship = relId ? rels?.match(new RegExp(`<Relationship\\b[^>]*\\bId="${relId}"[^>]*>`))?.[0] : undefined;
+    const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1];
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    return 'xl/worksheets/sheet1.xml';
+};
+
+// Reads the cell values of the first worksheet. Only what a mapping sheet needs is supported:
+// shared, inline and formula strings plus plain numbers; dates and styles are not interpreted.
+export const readXlsxRows = async (data: Blob): Promise<string[][]> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(await data.arrayBuffer());
+    } catch {
+        throw new Error('The spreadsheet is not a valid .xlsx file.');
+    }
+    const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+    const sharedStrings = sharedStringsXml ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => readXmlText(match[1])) : [];
+    const sheetXml = await zip.file(await getFirstSheetPath(zip))?.async('string');
+    if (!sheetXml) throw new Error('The spreadsheet has no worksheet.');
+
+    const rows: string[][] = [];
+    for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const row: string[] = [];
+        for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attributes = cellMatch[1];
+            const content = cellMatch[2] || '';
+            const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+            const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+            const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+            let value = '';
+            if (type === 's') value = sharedStrings[Number(rawValue)] ?? '';
+            else if (type === 'inlineStr') value = readXmlText(content);
+            else if (rawValue !== undefined) value = decodeXml(rawValue);
+            const column = ref ? getColumnIndex(ref) : row.length;
+            while (row.length < column) row.push('');
+            row[column] = value;
+        }
+        rows.push(row);
+    }
+    return rows;
+};
+
+// --- Mapping ---
+const findColumns = (header: string[]): Partial<Record<MappingColumn, number>> | null => {
+    const normalized = header.map(normalizeHeader);
+    const columns: Partial<Record<MappingColumn, number>> = {};
+    (Object.keys(COLUMN_ALIASES) as MappingColumn[]).forEach(column => {
+        const index = normalized.findIndex(cell => COLUMN_ALIASES[column].includes(cell));
+        if (index !== -1) columns[column] = index;
+    });
+    return columns.filename !== undefined && columns.sku !== undefined ? columns : null;
+};
+
+// Turns raw sheet rows into mapping rows. Without a recognisable header row the columns are taken
+// to be filename, SKU, position and role, in that order.
+export const parseMappingRows = (name: string, rawRows: string[][]): MappingSheet => {
+    const headerColumns = rawRows.length > 0 ? findColumns(rawRows[0]) : null;
+    const columns = headerColumns || { filename: 0, sku: 1, position: 2, role: 3 };
+    const rows: MappingRow[] = [];
+    const invalidRows: InvalidMappingRow[] = [];
+    const lookup = new Map<string, MappingRow>();
+    const cell = (values: string[], column: MappingColumn) => {
+        const index = columns[column];
+        return index === undefined ? '' : (values[index] || '').trim();
+    };
+
+    rawRows.forEach((values, index) => {
+        const rowNumber = index + 1;
+        if (headerColumns && index === 0) return;
+        if (values.every(value => !value.trim())) return;
+
+        // Sheets often hold paths; only the name is compared.
+        const filename = cell(values, 'filename').split(/[\\/]/).pop() || '';
+        const sku = cell(values, 'sku');
+        const positionText = cell(values, 'position');
+        const role = cell(values, 'role');
+        if (!filename) {
+            invalidRows.push({ row: rowNumber, reason: 'Missing filename.' });
+            return;
+        }
+        if (!sku) {
+            invalidRows.push({ row: rowNumber, reason: `Missing SKU for ${filename}.` });
+            return;
+        }
+        const position = positionText ? Number(positionText) : undefined;
+        if (position !== undefined && (!Number.isInteger(position) || position < 1)) {
+            invalidRows.push({ row: rowNumber, reason: `Position "${positionText}" for ${filename} is not a whole number of 1 or more.` });
+            return;
+        }
+        const key = filename.toLowerCase();
+        const previous = lookup.get(key);
+        if (previous) {
+            invalidRows.push({ row: rowNumber, reason: `${filename} is already mapped on row ${previous.row}.` });
+            return;
+        }
+
+        const mappingRow: MappingRow = { row: rowNumber, filename, sku, position, role: role || undefined };
+        rows.push(mappingRow);
+        lookup.set(key, mappingRow);
+    });
+    return { name, rows, invalidRows, lookup };
+};
+
+// Reads a .csv/.tsv/.txt or .xlsx file into rows of cell text.
+export const readSpreadsheetRows = async (file: File): Promise<string[][]> => {
+    const ext = splitFilename(file.name).ext.toLowerCase();
+    if (ext === 'xlsx') return readXlsxRows(file);
+    if (['csv', 'tsv', 'txt'].includes(ext)) return parseCsv(await file.text());
+    throw new Error(`${file.name} is not a .csv or .xlsx file.`);
+};
+
+export const readMappingSheet = async (file: File): Promise<MappingSheet> =>
+    parseMappingRows(file.name, await readSpreadsheetRows(file));
+
+// Matches on the full filename first, then on the name without its extension so a sheet can
+// list "IMG_4821" for IMG_4821.jpg.
+export const findMappingRow = (sheet: MappingSheet, filename: string): MappingRow | undefined => {
+    const lower = filename.toLowerCase();
+    return sheet.lookup.get(lower) ?? sheet.lookup.get(splitFilename(lower).basename);
+};
+
+export const getMappingReport = (sheet: MappingSheet, filenames: string[]): MappingReport => {
+    const matchedRows = new Set<MappingRow>();
+    const unmatchedFiles: string[] = [];
+    filenames.forEach(filename => {
+        const row = findMappingRow(sheet, filename);
+        if (row) matchedRows.add(row);
+        else unmatchedFiles.push(filename);
+    });
+    return {
+        matchedFiles: filenames.length - unmatchedFiles.length,
+        unmatchedRows: sheet.rows.filter(row => !matchedRows.has(row)),
+        unmatchedFiles,
+    };
+};
@@ -0,0 +1,65 @@
+import { splitFilename } from './filenames';
+
+export type OutputFormat = 'original' | 'jpeg' | 'webp' | 'png';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['original', 'jpeg', 'webp', 'png'];
+
+export interface ImageProcessingSettings {
+    // Longest edge in pixels; 0 keeps the original dimensions.
+    maxEdge: number;
+    format: OutputFormat;
+    // 1-100, used for JPEG and WebP.
+    quality: number;
+    stripMetadata: boolean;
+}
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingSettings = { maxEdge: 0, format: 'original', quality: 85, stripMetadata: false };
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored settings are untrusted JSON: a missing, mistyped or out-of-range field falls back to its default.
+export const normalizeImageProcessingSettings = (value: unknown): ImageProcessingSettings => {
+    const stored = isRecord(value) ? value : {};
+    const defaults = DEFAULT_IMAGE_PROCESSING;
+    const { maxEdge, quality, stripMetadata } = stored;
+    return {
+        maxEdge: typeof maxEdge === 'number' && Number.isInteger(maxEdge) && maxEdge >= 0 ? maxEdge : defaults.maxEdge,
+        format: OUTPUT_FORMATS.find(format => format === stored.format) ?? defaults.format,
+        quality: typeof quality === 'number' && quality >= 1 && quality <= 100 ? quality : defaults.quality,
+        stripMetadata: typeof stripMetadata === 'boolean' ? stripMetadata : defaults.stripMetadata,
+    };
+};
+
+const CANVAS_MIME_TYPES: Record<string, string> = { jpeg: 'image/jpeg', webp: 'image/webp', png: 'image/png' };
+const OUTPUT_EXTENSIONS: Record<string, string> = { jpeg: 'jpg', webp: 'webp', png: 'png' };
+
+const EXTENSION_MIME_TYPES: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif' };
+
+// Files extracted from a ZIP carry no type, so the extension decides for them.
+export const getImageMimeType = (file: File): string => {
+    if (file.type) return file.type === 'image/jpg' ? 'image/jpeg' : file.type;
+    return EXTENSION_MIME_TYPES[splitFilename(file.name).ext.toLowerCase()] || '';
+};
+
+// Canvas can only re-encode JPEG, PNG and WebP, so "original" leaves other formats (GIF, TIFF...) untouched.
+export const getTargetMimeType = (file: File, settings: ImageProcessingSettings): string | null => {
+    if (settings.format !== 'original') return CANVAS_MIME_TYPES[settings.format];
+    const type = getImageMimeType(file);
+    return Object.values(CANVAS_MIME_TYPES).includes(type) ? type : null;
+};
+
+export const isProcessingEnabled = (settings: ImageProcessingSettings) =>
+    settings.maxEdge > 0 || settings.format !== 'original' || settings.stripMetadata;
+
+export const getOutputExtension = (file: File, settings: ImageProcessingSettings): string => {
+    const { ext } = splitFilename(file.name);
+    if (settings.format === 'original' || !isProcessingEnabled(settings)) return ext;
+    return OUTPUT_EXTENSIONS[settings.format];
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,83 @@
+import { renderFilename } from './filenames';
+import { DEFAULT_IMAGE_PROCESSING, getOutputExtension, type ImageProcessingSettings } from './processing';
+
+export type RoleStyle = 'default' | 'amazon';
+export type FolderLayout = 'per-sku' | 'flat';
+
+export interface ExportProfile {
+    id: string;
+    name: string;
+    // null means the user's own filename template is used.
+    template: string | null;
+    folderLayout: FolderLayout;
+    roleStyle: RoleStyle;
+    // Lower-case extensions; null allows every image format.
+    allowedFormats: string[] | null;
+    maxImages: number | null;
+}
+
+// The parts of an image that naming and profile checks look at.
+export interface ExportableImage {
+    file: File;
+    // Overrides the global prefix for this image; undefined falls back to it.
+    prefix?: string;
+    role?: string;
+}
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+    { id: 'custom', name: 'Custom template', template: null, folderLayout: 'per-sku', roleStyle: 'default', allowedFormats: null, maxImages: null },
+    { id: 'amazon', name: 'Amazon', template: '{sku}.{role}.{ext}', folderLayout: 'flat', roleStyle: 'amazon', allowedFormats: ['jpg', 'jpeg', 'png', 'gif', 'tif', 'tiff'], maxImages: 9 },
+    { id: 'shopify', name: 'Shopify', template: '{sku:lower}-{seq:02}.{ext}', folderLayout: 'per-sku', roleStyle: 'default', allowedFormats: ['jpg', 'jpeg', 'png', 'gif', 'webp'], maxImages: 250 },
+    { id: 'web', name: 'Generic web', template: '{sku}-{seq:02}.{ext}', folderLayout: 'per-sku', roleStyle: 'default', allowedFormats: ['jpg', 'jpeg', 'png', 'webp'], maxImages: null },
+];
+
+export const getExportProfile = (id: string | null | undefined) => EXPORT_PROFILES.find(profile => profile.id === id) || EXPORT_PROFILES[0];
+
+export const getEffectiveTemplate = (profile: ExportProfile, customTemplate: string) => profile.template ?? customTemplate;
+
+// Amazon expects the hero shot as MAIN followed by PT01..PT08.
+export const getImageRole = (index: number, style: RoleStyle = 'default') => {
+    if (style === 'amazon') return index === 0 ? 'MAIN' : `PT${String(index).padStart(2, '0')}`;
+    return index === 0 ? 'main' : 'alt';
+};
+
+// The hero shot: an explicit role of "main" in either style, or the first image when no role is set.
+export const isMainImage = (image: { role?: string }, index: number) => (image.role || getImageRole(index)).toLowerCase() === 'main';
+
+export const getProfileViolations = (profile: ExportProfile, images: ExportableImage[], processing: ImageProcessingSettings = DEFAULT_IMAGE_PROCESSING): string[] => {
+    const violations: string[] = [];
+    if (profile.maxImages !== null && images.length > profile.maxImages) {
+        violations.push(`${images.length} images, ${profile.name} allows at most ${profile.maxImages}.`);
+    }
+    if (profile.allowedFormats) {
+        const rejected = images.filter(image => !profile.allowedFormats!.includes(getOutputExtension(image.file, processing).toLowerCase()));
+        if (rejected.length > 0) {
+            const formats = [...new Set(rejected.map(image => getOutputExtension(image.file, processing).toLowerCase() || 'no extension'))];
+            violations.push(`${rejected.length} image${rejected.length !== 1 ? 's' : ''} in an unsupported format (${formats.join(', ')}).`);
+        }
+    }
+    return violations;
+};
+
+// Names every image of a group for export and guarantees the names are unique within the folder.
+export const buildGroupFilenames = (
+    template: string,
+    sku: string,
+    images: ExportableImage[],
+    globalPrefix: string,
+    roleStyle: RoleStyle = 'default',
+    processing: ImageProcessingSettings = DEFAULT_IMAGE_PROCESSING,
+): string[] => {
+    const seen = new Set<string>();
+    return images.map((image, index) => {
+        const prefix = (image.prefix === undefined ? globalPrefix : image.prefix).trim();
+        const ext = getOutputExtension(image.file, processing);
+        const filename = renderFilename(template, { seq: index + 1, sku, prefix, file: image.file, role: image.role || getImageRole(index, roleStyle), ext });
+        const key = filename.toLowerCase();
+        if (seen.has(key)) {
+            throw new Error(`Template produces the duplicate filename "${filename}" in group ${sku}.`);
+        }
+        seen.add(key);
+        return filename;
+    });
+};
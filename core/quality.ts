@@ -0,0 +1,176 @@
+import { splitFilename } from './filenames';
+import type { GroupedImage, ImageGroups } from './groups';
+import { formatBytes } from './processing';
+import { isMainImage } from './profiles';
+
+// Configurable checks on the images as loaded, before any export processing. Decoding is left to
+// the caller; checks that need pixels are skipped for images without metrics.
+
+export type QualityCheck = 'dimensions' | 'aspect-ratio' | 'file-size' | 'format' | 'background';
+
+export interface QualityRules {
+    // 0 disables the check.
+    minWidth: number;
+    minHeight: number;
+    // Comma-separated width:height ratios, e.g. "1:1, 4:5"; empty allows any.
+    aspectRatios: string;
+    // 0 disables the check.
+    maxFileBytes: number;
+    // Comma-separated extensions, e.g. "jpg, png"; empty allows every format.
+    allowedFormats: string;
+    mainWhiteBackground: boolean;
+    // Refuse to export while any image fails a check.
+    blockExport: boolean;
+}
+
+export interface ImageMetrics {
+    width: number;
+    height: number;
+    // Share of the outer border that is near-white, 0-1.
+    borderWhiteness: number;
+}
+
+export interface QualityIssue {
+    check: QualityCheck;
+    message: string;
+}
+
+export const DEFAULT_QUALITY_RULES: QualityRules = {
+    minWidth: 0,
+    minHeight: 0,
+    aspectRatios: '',
+    maxFileBytes: 0,
+    allowedFormats: '',
+    mainWhiteBackground: false,
+    blockExport: false,
+};
+
+const ASPECT_RATIO_TOLERANCE = 0.01;
+const NEAR_WHITE = 240;
+const BORDER_DEPTH = 2;
+// Share of the border that has to be near-white for the background to count as white.
+export const WHITE_BACKGROUND_THRESHOLD = 0.9;
+
+const parseList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const normalizeFormat = (ext: string) => {
+    const lower = ext.toLowerCase().replace(/^\./, '');
+    return lower === 'jpeg' ? 'jpg' : lower === 'tiff' ? 'tif' : lower;
+};
+
+// Accepts "4:5", "4x5" or "4/5".
+export const parseAspectRatio = (text: string): number | null => {
+    const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/i);
+    if (!match) return null;
+    const ratio = Number(match[1]) / Number(match[2]);
+    return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+export const getQualityRulesError = (rules: QualityRules): string | null => {
+    const invalid = parseList(rules.aspectRatios).filter(ratio => parseAspectRatio(ratio) === null);
+    return invalid.length > 0 ? `Not an aspect ratio: ${invalid.join(', ')}. Use width:height, e.g. 4:5.` : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored rules are untrusted JSON: a missing or mistyped field, a negative limit or an aspect ratio
+// list that doesn't parse falls back to its default.
+export const normalizeQualityRules = (value: unknown): QualityRules => {
+    const stored = isRecord(value) ? value : {};
+    const defaults = DEFAULT_QUALITY_RULES;
+    const readLimit = (key: 'minWidth' | 'minHeight' | 'maxFileBytes') => {
+        const field = stored[key];
+        return typeof field === 'number' && Number.isFinite(field) && field >= 0 ? field : defaults[key];
+    };
+    const readText = (key: 'aspectRatios' | 'allowedFormats') => {
+        const field = stored[key];
+        return typeof field === 'string' ? field : defaults[key];
+    };
+    const readFlag = (key: 'mainWhiteBackground' | 'blockExport') => {
+        const field = stored[key];
+        return typeof field === 'boolean' ? field : defaults[key];
+    };
+    const rules: QualityRules = {
+        minWidth: readLimit('minWidth'),
+        minHeight: readLimit('minHeight'),
+        aspectRatios: readText('aspectRatios'),
+        maxFileBytes: readLimit('maxFileBytes'),
+        allowedFormats: readText('allowedFormats'),
+        mainWhiteBackground: readFlag('mainWhiteBackground'),
+        blockExport: readFlag('blockExport'),
+    };
+    return getQualityRulesError(rules) ? { ...rules, aspectRatios: defaults.aspectRatios } : rules;
+};
+
+export const isQualityCheckEnabled = (rules: QualityRules) =>
+    rules.minWidth > 0 || rules.minHeight > 0 || parseList(rules.aspectRatios).length > 0 || rules.maxFileBytes > 0
+    || parseList(rules.allowedFormats).length > 0 || rules.mainWhiteBackground;
+
+// Looks at a ring a couple of pixels deep around the edge of a downscaled RGBA sample.
+// Transparent pixels count as white, as they appear on a white product page.
+export const measureBorderWhiteness = (rgba: ArrayLike<number>, width: number, height: number): number => {
+    let white = 0;
+    let total = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const onBorder = x < BORDER_DEPTH || y < BORDER_DEPTH || x >= width - BORDER_DEPTH || y >= height - BORDER_DEPTH;
+            if (!onBorder) continue;
+            const offset = (y * width + x) * 4;
+            const alpha = rgba[offset + 3] / 255;
+            const darkest = Math.min(rgba[offset], rgba[offset + 1], rgba[offset + 2]) * alpha + 255 * (1 - alpha);
+            if (darkest >= NEAR_WHITE) white++;
+            total++;
+        }
+    }
+    return total > 0 ? white / total : 0;
+};
+
+export const getImageQualityIssues = (
+    image: GroupedImage,
+    index: number,
+    metrics: ImageMetrics | undefined,
+    rules: QualityRules,
+): QualityIssue[] => {
+    const issues: QualityIssue[] = [];
+    const formats = parseList(rules.allowedFormats).map(normalizeFormat);
+    const ext = normalizeFormat(splitFilename(image.file.name).ext);
+    if (formats.length > 0 && !formats.includes(ext)) {
+        issues.push({ check: 'format', message: `${ext ? ext.toUpperCase() : 'No extension'} is not an allowed format (${formats.join(', ')}).` });
+    }
+    if (rules.maxFileBytes > 0 && image.file.size > rules.maxFileBytes) {
+        issues.push({ check: 'file-size', message: `${formatBytes(image.file.size)} is over the ${formatBytes(rules.maxFileBytes)} limit.` });
+    }
+    if (!metrics) return issues;
+
+    if (metrics.width < rules.minWidth || metrics.height < rules.minHeight) {
+        const minimum = rules.minWidth > 0 && rules.minHeight > 0 ? `${rules.minWidth}×${rules.minHeight} px`
+            : rules.minWidth > 0 ? `${rules.minWidth} px width` : `${rules.minHeight} px height`;
+        issues.push({ check: 'dimensions', message: `${metrics.width}×${metrics.height} px is below the ${minimum} minimum.` });
+    }
+    const ratios = parseList(rules.aspectRatios).filter(text => parseAspectRatio(text) !== null);
+    const allowedRatios = ratios.map(text => parseAspectRatio(text)!);
+    const ratio = metrics.width / metrics.height;
+    if (allowedRatios.length > 0 && !allowedRatios.some(allowed => Math.abs(ratio - allowed) / allowed <= ASPECT_RATIO_TOLERANCE)) {
+        issues.push({ check: 'aspect-ratio', message: `Aspect ratio ${ratio.toFixed(2)} is not one of ${ratios.join(', ')}.` });
+    }
+    if (rules.mainWhiteBackground && isMainImage(image, index) && metrics.borderWhiteness < WHITE_BACKGROUND_THRESHOLD) {
+        issues.push({ check: 'background', message: `Main image background is not white (${Math.round(metrics.borderWhiteness * 100)}% of the edge is near-white).` });
+    }
+    return issues;
+};
+
+// Image id -> issues, for failing images only.
+export const checkImageQuality = <T extends GroupedImage>(
+    groups: ImageGroups<T>,
+    getMetrics: (image: T) => ImageMetrics | undefined,
+    rules: QualityRules,
+): Map<string, QualityIssue[]> => {
+    const results = new Map<string, QualityIssue[]>();
+    if (!isQualityCheckEnabled(rules)) return results;
+    groups.forEach(images => images.forEach((image, index) => {
+        const issues = getImageQualityIssues(image, index, getMetrics(image), rules);
+        if (issues.length > 0) results.set(image.id, issues);
+    }));
+    return results;
+};
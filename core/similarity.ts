@@ -0,0 +1,150 @@
+import type { GroupedImage, ImageGroups } from './groups';
+
+// Perceptual fingerprints for spotting the same shot saved at different sizes or compressions.
+// Decoding is left to the caller (a canvas in the browser); this module only works on pixels.
+
+export interface ImageFingerprint {
+    // 64-bit difference hash as 16 hex digits.
+    hash: string;
+    width: number;
+    height: number;
+}
+
+export interface DuplicateMember<T extends GroupedImage = GroupedImage> {
+    sku: string;
+    image: T;
+    fingerprint: ImageFingerprint;
+}
+
+export interface DuplicateCluster<T extends GroupedImage = GroupedImage> {
+    // Stable while the members stay the same, so a dismissed cluster stays dismissed.
+    key: string;
+    members: DuplicateMember<T>[];
+    // The member to keep by default: the highest resolution, then the largest file.
+    bestId: string;
+}
+
+// Differing bits (out of 64) at or below which two images count as the same shot.
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+// Suggested sampling size: a multiple of the 9x8 hash grid, so each cell averages the same
+// number of pixels.
+export const FINGERPRINT_SAMPLE_WIDTH = HASH_COLUMNS * 8;
+export const FINGERPRINT_SAMPLE_HEIGHT = HASH_ROWS * 8;
+
+// dHash of RGBA pixel data: the image is averaged down to 9x8 luminance cells and each bit records
+// whether a cell is brighter than its left neighbour.
+export const computeDHash = (rgba: ArrayLike<number>, width: number, height: number): string => {
+    const cells = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+    const counts = new Uint32Array(HASH_COLUMNS * HASH_ROWS);
+    for (let y = 0; y < height; y++) {
+        const row = Math.min(HASH_ROWS - 1, Math.floor(y * HASH_ROWS / height));
+        for (let x = 0; x < width; x++) {
+            const column = Math.min(HASH_COLUMNS - 1, Math.floor(x * HASH_COLUMNS / width));
+            const offset = (y * width + x) * 4;
+            const alpha = rgba[offset + 3] / 255;
+            // Transparent pixels read as white, as they appear on a product page.
+            const luminance = 0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+            cells[row * HASH_COLUMNS + column] += luminance * alpha + 255 * (1 - alpha);
+            counts[row * HASH_COLUMNS + column]++;
+        }
+    }
+    const average = (index: number) => counts[index] ? cells[index] / counts[index] : 0;
+
+    let hash = '';
+    for (let row = 0; row < HASH_ROWS; row++) {
+        let bits = 0;
+        for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+            const index = row * HASH_COLUMNS + column;
+            bits = (bits << 1) | (average(index + 1) > average(index) ? 1 : 0);
+        }
+        hash += bits.toString(16).padStart(2, '0');
+    }
+    return hash;
+};
+
+const countBits = (value: number) => {
+    let count = 0;
+    for (let bits = value; bits; bits &= bits - 1) count++;
+    return count;
+};
+
+export const getHashDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let index = 0; index < a.length; index += 8) {
+        distance += countBits((parseInt(a.slice(index, index + 8), 16) ^ parseInt(b.slice(index, index + 8), 16)) >>> 0);
+    }
+    return distance;
+};
+
+const compareQuality = (a: DuplicateMember, b: DuplicateMember) =>
+    b.fingerprint.width * b.fingerprint.height - a.fingerprint.width * a.fingerprint.height || b.image.file.size - a.image.file.size;
+
+// Numbers the fingerprints so that ones within `maxDistance` of each other (transitively) share a
+// number. This is the quadratic part of duplicate detection and depends on nothing but the
+// fingerprints, so callers can keep the result while images are moved, renamed or re-prefixed.
+export const clusterFingerprints = <K>(fingerprints: Map<K, ImageFingerprint>, maxDistance = NEAR_DUPLICATE_DISTANCE): Map<K, number> => {
+    const keys = [...fingerprints.keys()];
+    const hashes = keys.map(key => fingerprints.get(key)!.hash);
+    const parents = keys.map((_, index) => index);
+    const findRoot = (index: number): number => {
+        while (parents[index] !== index) {
+            parents[index] = parents[parents[index]];
+            index = parents[index];
+        }
+        return index;
+    };
+    for (let i = 0; i < hashes.length; i++) {
+        for (let j = i + 1; j < hashes.length; j++) {
+            if (getHashDistance(hashes[i], hashes[j]) <= maxDistance) {
+                parents[findRoot(j)] = findRoot(i);
+            }
+        }
+    }
+    return new Map(keys.map((key, index) => [key, findRoot(index)]));
+};
+
+// Gathers the images in `groups` into clusters by the number `clusterFingerprints` gave their
+// fingerprint. Linear in the number of images; images without a fingerprint are ignored.
+// Clusters follow group order.
+export const buildDuplicateClusters = <T extends GroupedImage>(
+    groups: ImageGroups<T>,
+    getFingerprint: (image: T) => ImageFingerprint | undefined,
+    getClusterId: (image: T) => number | undefined,
+): DuplicateCluster<T>[] => {
+    const clusters = new Map<number, DuplicateMember<T>[]>();
+    groups.forEach((images, sku) => images.forEach(image => {
+        const fingerprint = getFingerprint(image);
+        const clusterId = getClusterId(image);
+        if (!fingerprint || clusterId === undefined) return;
+        const members = clusters.get(clusterId);
+        if (members) members.push({ sku, image, fingerprint });
+        else clusters.set(clusterId, [{ sku, image, fingerprint }]);
+    }));
+    return [...clusters.values()]
+        .filter(cluster => cluster.length > 1)
+        .map(cluster => ({
+            key: cluster.map(member => member.image.id).sort().join('|'),
+            members: cluster,
+            bestId: [...cluster].sort(compareQuality)[0].image.id,
+        }));
+};
+
+// Clusters images, within and across groups, whose hashes are within `maxDistance` of each other
+// (transitively), in one go.
+export const findDuplicateClusters = <T extends GroupedImage>(
+    groups: ImageGroups<T>,
+    getFingerprint: (image: T) => ImageFingerprint | undefined,
+    maxDistance = NEAR_DUPLICATE_DISTANCE,
+): DuplicateCluster<T>[] => {
+    const fingerprints = new Map<T, ImageFingerprint>();
+    groups.forEach(images => images.forEach(image => {
+        const fingerprint = getFingerprint(image);
+        if (fingerprint) fingerprints.set(image, fingerprint);
+    }));
+    const clusterIds = clusterFingerprints(fingerprints, maxDistance);
+    return buildDuplicateClusters(groups, getFingerprint, image => clusterIds.get(image));
+};
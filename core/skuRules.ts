@@ -0,0 +1,156 @@
+export type SkuRuleTarget = 'filename' | 'basename';
+export type SkuRuleCase = 'none' | 'upper' | 'lower';
+
+export interface SkuRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    // Matched against the full filename or the name without its extension.
+    // A named group `sku` wins; otherwise the first capture group, then the whole match.
+    pattern: string;
+    flags: string;
+    target: SkuRuleTarget;
+    stripPrefix: string;
+    stripSuffix: string;
+    caseMode: SkuRuleCase;
+}
+
+export interface SkuRuleSet {
+    id: string;
+    name: string;
+    rules: SkuRule[];
+}
+
+export interface SkuMatch {
+    sku: string;
+    rule: SkuRule | null;
+}
+
+export const UNIDENTIFIED_SKU = 'Unidentified';
+
+export const createSkuRule = (overrides: Partial<SkuRule> = {}): SkuRule => ({
+    id: crypto.randomUUID(),
+    name: 'New rule',
+    enabled: true,
+    pattern: '',
+    flags: 'i',
+    target: 'basename',
+    stripPrefix: '',
+    stripSuffix: '',
+    caseMode: 'none',
+    ...overrides,
+});
+
+// Mirrors the original hard-coded behaviour: a 6-5-3 digit SKU anywhere in the name,
+// otherwise the name with "(n)" copies and trailing -N/_N sequence suffixes removed.
+export const createDefaultRuleSet = (): SkuRuleSet => ({
+    id: crypto.randomUUID(),
+    name: 'Default',
+    rules: [
+        createSkuRule({ name: 'Riva SKU (000000-00000-000)', pattern: '(?<sku>\\d{6}-\\d{5}-\\d{3})', flags: '', target: 'filename' }),
+        createSkuRule({ name: 'Name without sequence suffix', pattern: '^\\s*(?<sku>.*?)(?:[-_]\\d*)*(?:\\s*\\([^)]*\\))?\\s*$', flags: '' }),
+    ],
+});
+
+const SKU_RULE_TARGETS: SkuRuleTarget[] = ['filename', 'basename'];
+const SKU_RULE_CASES: SkuRuleCase[] = ['none', 'upper', 'lower'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasRules = (value: unknown): value is Record<string, unknown> & { rules: unknown[] } =>
+    isRecord(value) && Array.isArray(value.rules);
+
+// Stored and imported rules are untrusted JSON: a field of the wrong type falls back to its
+// default, and a rule without a string pattern is dropped.
+const normalizeSkuRule = (value: unknown): SkuRule | null => {
+    if (!isRecord(value) || typeof value.pattern !== 'string') return null;
+    const defaults = createSkuRule();
+    const readText = (key: 'id' | 'name' | 'flags' | 'stripPrefix' | 'stripSuffix') => {
+        const field = value[key];
+        return typeof field === 'string' ? field : defaults[key];
+    };
+    return {
+        id: readText('id'),
+        name: readText('name'),
+        enabled: typeof value.enabled === 'boolean' ? value.enabled : defaults.enabled,
+        pattern: value.pattern,
+        flags: readText('flags'),
+        target: SKU_RULE_TARGETS.find(target => target === value.target) ?? defaults.target,
+        stripPrefix: readText('stripPrefix'),
+        stripSuffix: readText('stripSuffix'),
+        caseMode: SKU_RULE_CASES.find(caseMode => caseMode === value.caseMode) ?? defaults.caseMode,
+    };
+};
+
+const normalizeSkuRuleSet = (set: { id?: unknown; name?: unknown; rules: unknown[] }): SkuRuleSet => ({
+    id: typeof set.id === 'string' ? set.id : crypto.randomUUID(),
+    name: typeof set.name === 'string' && set.name.trim() ? set.name : 'Imported',
+    rules: set.rules.map(normalizeSkuRule).filter((rule): rule is SkuRule => rule !== null),
+});
+
+// Accepts the saved rule sets, a single exported rule set or a bare list of rules.
+export const parseSkuRuleSets = (raw: unknown): SkuRuleSet[] => {
+    if (Array.isArray(raw) && raw.length > 0 && raw.every(hasRules)) {
+        return raw.map(normalizeSkuRuleSet);
+    }
+    if (hasRules(raw)) {
+        return [normalizeSkuRuleSet(raw)];
+    }
+    if (Array.isArray(raw) && raw.length > 0 && raw.every(item => isRecord(item) && typeof item.pattern === 'string')) {
+        return [normalizeSkuRuleSet({ rules: raw })];
+    }
+    throw new Error('Expected a list of SKU rule sets, a single rule set or a list of rules.');
+};
+
+export const compileSkuRule = (rule: SkuRule): RegExp | null => {
+    if (!rule.pattern) return null;
+    try {
+        return new RegExp(rule.pattern, rule.flags.replace(/[gy]/g, ''));
+    } catch {
+        return null;
+    }
+};
+
+export const getSkuRuleError = (rule: SkuRule): string | null => {
+    if (!rule.pattern) return 'Pattern is empty';
+    try {
+        new RegExp(rule.pattern, rule.flags.replace(/[gy]/g, ''));
+        return null;
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid pattern';
+    }
+};
+
+export const applySkuRule = (rule: SkuRule, filename: string): string | null => {
+    const regex = compileSkuRule(rule);
+    if (!regex) return null;
+
+    const basename = filename.includes('.') ? filename.split('.').slice(0, -1).join('.') : filename;
+    const match = (rule.target === 'filename' ? filename : basename).match(regex);
+    if (!match) return null;
+
+    let sku = match.groups?.sku ?? match[1] ?? match[0];
+    if (!sku) return null;
+    sku = sku.trim();
+    if (rule.stripPrefix && sku.startsWith(rule.stripPrefix)) {
+        sku = sku.slice(rule.stripPrefix.length);
+    }
+    if (rule.stripSuffix && sku.endsWith(rule.stripSuffix)) {
+        sku = sku.slice(0, -rule.stripSuffix.length);
+    }
+    if (rule.caseMode === 'upper') sku = sku.toUpperCase();
+    if (rule.caseMode === 'lower') sku = sku.toLowerCase();
+    sku = sku.trim();
+    return sku || null;
+};
+
+// Rules are tried in order; the first one that yields a non-empty SKU wins.
+export const getSkuFromFilename = (filename: string, rules: SkuRule[]): SkuMatch => {
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+        const sku = applySkuRule(rule, filename);
+        if (sku) return { sku, rule };
+    }
+    return { sku: UNIDENTIFIED_SKU, rule: null };
+};
@@ -0,0 +1,15 @@
+export const IMAGE_FILE_REGEX = /\.(jpe?g|png|gif|webp)$/i;
+export const ZIP_FILE_REGEX = /\.zip$/i;
+export const DEFAULT_NESTED_ZIP_DEPTH = 3;
+
+export const isImportableFile = (name: string) => IMAGE_FILE_REGEX.test(name) || ZIP_FILE_REGEX.test(name);
+
+// The folder that directly contains a file, given its source path such as "export.zip/SKU-1/photo.jpg".
+// A nested archive counts as a folder named after it. The archive, folder or picked directory the
+// user supplied does not, so loose files at its top level fall back to their filenames.
+export const getFolderFromSourcePath = (sourcePath: string | undefined): string | null => {
+    const segments = (sourcePath || '').split('/').filter(Boolean);
+    if (segments.length < 3) return null;
+    const parent = segments[segments.length - 2].replace(ZIP_FILE_REGEX, '').trim();
+    return parent || null;
+};
@@ -0,0 +1,70 @@
+import JSZip from 'jszip';
+import { IMAGE_FILE_REGEX, ZIP_FILE_REGEX } from './sources';
+
+export interface ZipEntry {
+    path: string;
+    data: Blob;
+}
+
+export interface ExtractedEntry {
+    name: string;
+    // Full path including the archive chain, e.g. "export.zip/inner.zip/SKU-1/photo.jpg".
+    path: string;
+    data: Blob;
+}
+
+export type ProgressCallback = (percent: number, currentFile: string | null) => void;
+
+// JSZip reads Blobs through FileReader, which Node doesn't have; there the bytes are handed over instead.
+const toZipInput = (data: Blob) => typeof FileReader === 'undefined' ? data.arrayBuffer() : data;
+
+export const createZip = (entries: ZipEntry[]): JSZip => {
+    const zip = new JSZip();
+    entries.forEach(entry => zip.file(entry.path, toZipInput(entry.data)));
+    return zip;
+};
+
+// Pulls every image out of an archive, recursing into nested archives up to `maxDepth` levels.
+// Archives nested deeper are skipped with a warning rather than failing the whole import.
+export const extractArchive = async (
+    archive: Blob,
+    archivePath: string,
+    maxDepth: number,
+    warnings: string[],
+    onProgress: ProgressCallback = () => {},
+    depth = 0,
+): Promise<ExtractedEntry[]> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(await archive.arrayBuffer());
+    } catch {
+        throw new Error(`Failed to read ${archivePath}. It may be corrupt or an unsupported format.`);
+    }
+
+    const entries: JSZip.JSZipObject[] = [];
+    zip.forEach((relativePath, zipEntry) => {
+        if (!zipEntry.dir && !relativePath.startsWith('__MACOSX/')) entries.push(zipEntry);
+    });
+
+    const extracted: ExtractedEntry[] = [];
+    for (const [index, zipEntry] of entries.entries()) {
+        const entryPath = `${archivePath}/${zipEntry.name}`;
+        if (depth === 0) onProgress((index / entries.length) * 100, zipEntry.name);
+        if (IMAGE_FILE_REGEX.test(zipEntry.name)) {
+            const data = new Blob([await zipEntry.async('uint8array')]);
+            extracted.push({ name: zipEntry.name.split('/').pop() || zipEntry.name, path: entryPath, data });
+        } else if (ZIP_FILE_REGEX.test(zipEntry.name)) {
+            if (depth >= maxDepth) {
+                warnings.push(`Skipped ${entryPath}: nested deeper than ${maxDepth} level${maxDepth !== 1 ? 's' : ''}.`);
+                continue;
+            }
+            const nested = new Blob([await zipEntry.async('uint8array')]);
+            try {
+                extracted.push(...await extractArchive(nested, entryPath, maxDepth, warnings, onProgress, depth + 1));
+            } catch {
+                warnings.push(`Skipped ${entryPath}: it may be corrupt or an unsupported format.`);
+            }
+        }
+    }
+    return extracted;
+};
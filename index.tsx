@@ -1,113 +1,1628 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import JSZip from 'jszip';
+import type { ZipWorkerRequest, ZipWorkerResponse } from './zip.worker';
+import {
+    COVERAGE_ISSUE_LABELS, DEFAULT_FILENAME_TEMPLATE, DEFAULT_GROUP_FILTER, DEFAULT_IMAGE_PROCESSING, DEFAULT_MIN_IMAGES,
+    DEFAULT_NESTED_ZIP_DEPTH, DEFAULT_QUALITY_RULES, EXPORT_PROFILES, FILENAME_TOKENS, FINGERPRINT_SAMPLE_HEIGHT,
+    FINGERPRINT_SAMPLE_WIDTH, GROUP_SORT_LABELS, GROUP_STATUS_LABELS, OUTPUT_FORMATS,
+    addImagesToGroups, buildCoverageCsv, buildDuplicateClusters, buildExportGroups, buildGroupFilenames, buildManifestEntries,
+    buildManifestRow, buildPartIndex, checkImageQuality, clusterFingerprints, computeDHash, createCatalog, createDefaultRuleSet,
+    createSkuRule, createZipPartPacker, duplicateImage, duplicateImages, filterGroups, findUnknownSkus, formatBytes,
+    getCatalogCoverage, getEffectiveTemplate, getExportPath, getExportProfile, getFilteredGroups, getGroupFilterError,
+    getImageMimeType, getImageRole, getMappingReport, getPartIndexName, getPartName, getProfileViolations, getQualityRulesError,
+    getSkuFromFilename, getSkuRuleError, getTargetMimeType, getUniqueGroupName, groupImages, isGroupFilterActive,
+    isImportableFile, isProcessingEnabled, isQualityCheckEnabled, measureBorderWhiteness, mergeGroups, moveGroup, moveImage,
+    moveImagesToGroup, normalizeImageProcessingSettings, normalizeQualityRules, parseSkuRuleSets, readCatalog, readMappingSheet,
+    removeGroup, removeImage, removeImages, renameGroup, renderFilename, reorderGroups, sha256Hex, splitFilename,
+    summarizeZipPart, updateImage, updateImages, validateFilenameTemplate,
+    type Catalog, type DuplicateCluster, type ExportGroup, type GroupFilter, type GroupSort, type GroupStatusFilter,
+    type GroupedImage, type GroupingOptions, type ImageFingerprint, type ImageMetrics, type ImageProcessingSettings,
+    type ManifestRow, type MappingReport, type MappingSheet, type OutputFormat, type PreparedEntry, type QualityIssue,
+    type QualityRules, type SkuRule, type SkuRuleCase, type SkuRuleSet, type SkuRuleTarget, type SkuSuggestion, type ZipEntry,
+    type ZipPart, type ZipPartSummary,
+} from './core';
 
-interface OrganizedImage {
-    id: string;
-    file: File;
+interface OrganizedImage extends GroupedImage {
     url: string;
+}
+
+// --- Source Paths ---
+// Source paths travel with the File objects so they survive until organizing creates OrganizedImages.
+const sourcePaths = new WeakMap<File, string>();
+const getSourcePath = (file: File): string | undefined => sourcePaths.get(file);
+const setSourcePath = (file: File, path: string | undefined) => {
+    if (path) sourcePaths.set(file, path);
+};
+
+// --- Directory Import ---
+// File System Access API pieces that TypeScript's DOM lib doesn't ship yet.
+interface DirectoryPickerHandle extends FileSystemDirectoryHandle {
+    values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>;
+}
+
+declare global {
+    interface Window {
+        showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<DirectoryPickerHandle>;
+        showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+    }
+}
+
+const readAllDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches and an empty batch once the directory is exhausted.
+    while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+};
+
+// Walks a dropped file or folder, tagging every file with its path relative to the drop.
+const collectFilesFromEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        if (!isImportableFile(entry.name)) return [];
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        const relativePath = entry.fullPath.replace(/^\//, '');
+        if (relativePath.includes('/')) setSourcePath(file, relativePath);
+        return [file];
+    }
+    if (entry.isDirectory) {
+        const children = await readAllDirectoryEntries(entry as FileSystemDirectoryEntry);
+        return (await Promise.all(children.map(collectFilesFromEntry))).flat();
+    }
+    return [];
+};
+
+const collectFilesFromDirectoryHandle = async (directory: DirectoryPickerHandle, path: string): Promise<File[]> => {
+    const files: File[] = [];
+    for await (const handle of directory.values()) {
+        const handlePath = `${path}/${handle.name}`;
+        if (handle.kind === 'directory') {
+            files.push(...await collectFilesFromDirectoryHandle(handle as DirectoryPickerHandle, handlePath));
+        } else if (isImportableFile(handle.name)) {
+            const file = await (handle as FileSystemFileHandle).getFile();
+            setSourcePath(file, handlePath);
+            files.push(file);
+        }
+    }
+    return files;
+};
+
+const createOrganizedImage = (file: File, overrides: Partial<OrganizedImage> = {}): OrganizedImage => ({
+    id: crypto.randomUUID(),
+    file,
+    url: URL.createObjectURL(file),
+    sourcePath: getSourcePath(file),
+    ...overrides,
+});
+
+// --- SKU Extraction Rules ---
+const SKU_RULES_STORAGE_KEY = 'skuRuleSets';
+const ACTIVE_RULE_SET_STORAGE_KEY = 'activeSkuRuleSet';
+
+const loadSkuRuleSets = (): SkuRuleSet[] => {
+    try {
+        const stored = localStorage.getItem(SKU_RULES_STORAGE_KEY);
+        if (stored) return parseSkuRuleSets(JSON.parse(stored));
+    } catch (err) {
+        console.error("Failed to load SKU rules:", err);
+    }
+    return [createDefaultRuleSet()];
+};
+
+// --- Export Image Processing ---
+interface ExportSizeReport {
+    originalBytes: number;
+    exportedBytes: number;
+}
+
+const IMAGE_PROCESSING_STORAGE_KEY = 'imageProcessing';
+
+const loadImageProcessingSettings = (): ImageProcessingSettings => {
+    try {
+        const stored = localStorage.getItem(IMAGE_PROCESSING_STORAGE_KEY);
+        if (stored) return normalizeImageProcessingSettings(JSON.parse(stored));
+    } catch (err) {
+        console.error("Failed to load image processing settings:", err);
+    }
+    return DEFAULT_IMAGE_PROCESSING;
+};
+
+// Resizes and/or re-encodes an image in the browser. Drawing onto a canvas drops EXIF/XMP/ICC
+// metadata, so any re-encode also strips it.
+const processImageForExport = async (file: File, settings: ImageProcessingSettings): Promise<Blob> => {
+    if (!isProcessingEnabled(settings)) return file;
+    const targetType = getTargetMimeType(file, settings);
+    if (!targetType) return file;
+
+    const bitmap = await createImageBitmap(file);
+    try {
+        const longestEdge = Math.max(bitmap.width, bitmap.height);
+        const scale = settings.maxEdge > 0 && longestEdge > settings.maxEdge ? settings.maxEdge / longestEdge : 1;
+        if (scale === 1 && targetType === getImageMimeType(file) && !settings.stripMetadata) return file;
+
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+        const quality = Math.min(100, Math.max(1, settings.quality)) / 100;
+
+        if (typeof OffscreenCanvas !== 'undefined') {
+            const canvas = new OffscreenCanvas(width, height);
+            const context = canvas.getContext('2d');
+            if (!context) throw new Error('Canvas is not available in this browser.');
+            if (targetType === 'image/jpeg') {
+                context.fillStyle = '#ffffff';
+                context.fillRect(0, 0, width, height);
+            }
+            context.drawImage(bitmap, 0, 0, width, height);
+            return await canvas.convertToBlob({ type: targetType, quality });
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available in this browser.');
+        if (targetType === 'image/jpeg') {
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, width, height);
+        }
+        context.drawImage(bitmap, 0, 0, width, height);
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${file.name}.`)), targetType, quality);
+        });
+    } finally {
+        bitmap.close();
+    }
+};
+
+// --- Marketplace Export Profiles ---
+const EXPORT_PROFILE_STORAGE_KEY = 'exportProfile';
+
+// --- Session Persistence (IndexedDB) ---
+interface StoredBlob {
+    id: string;
+    name: string;
+    type: string;
+    lastModified: number;
+    sourcePath?: string;
+    blob: Blob;
+}
+
+interface StoredImage {
+    id: string;
+    fileId: string;
     prefix?: string;
+    role?: string;
+}
+
+interface StoredSession {
+    savedAt: number;
+    fileIds: string[];
+    // Array of [sku, images] pairs so group order survives serialization.
+    groups: [string, StoredImage[]][];
+    filenamePrefix: string;
+    filenameTemplate: string;
+}
+
+const SESSION_DB_NAME = 'riva-choice';
+const SESSION_DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'current';
+const SESSION_AUTOSAVE_DELAY = 1000;
+
+// Stable ids for File objects so duplicated images share one stored blob.
+const fileIds = new WeakMap<File, string>();
+const getFileId = (file: File): string => {
+    let id = fileIds.get(file);
+    if (!id) {
+        id = crypto.randomUUID();
+        fileIds.set(file, id);
+    }
+    return id;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openSessionDb = (): Promise<IDBDatabase> => {
+    const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+    };
+    return requestToPromise(request);
+};
+
+const loadStoredSession = async (): Promise<StoredSession | null> => {
+    const db = await openSessionDb();
+    try {
+        const transaction = db.transaction(SESSION_STORE, 'readonly');
+        const session = await requestToPromise<StoredSession | undefined>(transaction.objectStore(SESSION_STORE).get(SESSION_KEY));
+        return session ?? null;
+    } finally {
+        db.close();
+    }
+};
+
+// Writes blobs that aren't stored yet, replaces the session record and drops blobs nothing references.
+const saveStoredSession = async (files: File[], organizedImages: Map<string, OrganizedImage[]>, settings: Pick<StoredSession, 'filenamePrefix' | 'filenameTemplate'>) => {
+    const referenced = new Map<string, File>();
+    files.forEach(file => referenced.set(getFileId(file), file));
+    organizedImages.forEach(imageGroup => imageGroup.forEach(image => referenced.set(getFileId(image.file), image.file)));
+
+    const session: StoredSession = {
+        savedAt: Date.now(),
+        fileIds: files.map(getFileId),
+        groups: [...organizedImages.entries()].map(([sku, imageGroup]) => [
+            sku,
+            imageGroup.map(image => ({ id: image.id, fileId: getFileId(image.file), prefix: image.prefix, role: image.role })),
+        ]),
+        ...settings,
+    };
+
+    const db = await openSessionDb();
+    try {
+        const transaction = db.transaction([BLOB_STORE, SESSION_STORE], 'readwrite');
+        const blobStore = transaction.objectStore(BLOB_STORE);
+        const storedIds = new Set((await requestToPromise(blobStore.getAllKeys())).map(String));
+        referenced.forEach((file, id) => {
+            if (!storedIds.has(id)) {
+                const record: StoredBlob = { id, name: file.name, type: file.type, lastModified: file.lastModified, sourcePath: getSourcePath(file), blob: file };
+                blobStore.put(record);
+            }
+        });
+        storedIds.forEach(id => {
+            if (!referenced.has(id)) blobStore.delete(id);
+        });
+        transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+        await transactionDone(transaction);
+    } finally {
+        db.close();
+    }
+};
+
+const restoreStoredSession = async (session: StoredSession) => {
+    const db = await openSessionDb();
+    const restoredFiles = new Map<string, File>();
+    try {
+        const transaction = db.transaction(BLOB_STORE, 'readonly');
+        const records = await requestToPromise<StoredBlob[]>(transaction.objectStore(BLOB_STORE).getAll());
+        records.forEach(record => {
+            const file = new File([record.blob], record.name, { type: record.type, lastModified: record.lastModified });
+            fileIds.set(file, record.id);
+            setSourcePath(file, record.sourcePath);
+            restoredFiles.set(record.id, file);
+        });
+    } finally {
+        db.close();
+    }
+
+    const files = session.fileIds.map(id => restoredFiles.get(id)).filter((file): file is File => file !== undefined);
+    const organizedImages = new Map<string, OrganizedImage[]>();
+    session.groups.forEach(([sku, images]) => {
+        const imageGroup: OrganizedImage[] = [];
+        images.forEach(image => {
+            const file = restoredFiles.get(image.fileId);
+            if (file) imageGroup.push(createOrganizedImage(file, { id: image.id, prefix: image.prefix, role: image.role }));
+        });
+        if (imageGroup.length > 0) organizedImages.set(sku, imageGroup);
+    });
+    return { files, organizedImages };
+};
+
+const clearStoredSession = async () => {
+    const db = await openSessionDb();
+    try {
+        const transaction = db.transaction([BLOB_STORE, SESSION_STORE], 'readwrite');
+        transaction.objectStore(BLOB_STORE).clear();
+        transaction.objectStore(SESSION_STORE).clear();
+        await transactionDone(transaction);
+    } finally {
+        db.close();
+    }
+};
+
+// --- Project Files (.riva) ---
+interface ProjectSettings {
+    filenamePrefix: string;
+    filenameTemplate: string;
+    exportProfileId: string;
+    imageProcessing: ImageProcessingSettings;
+}
+
+interface ProjectFileEntry {
+    id: string;
+    name: string;
+    type: string;
+    lastModified: number;
+    // Location of the image bytes inside the project ZIP.
+    path: string;
+    sourcePath?: string;
 }
 
+interface ProjectManifest {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: number;
+    settings: ProjectSettings;
+    files: ProjectFileEntry[];
+    // Ids of the loaded files, in upload order (including ones not organized yet).
+    loadedFileIds: string[];
+    groups: { sku: string; images: StoredImage[] }[];
+}
+
+interface OpenedProject {
+    files: File[];
+    organizedImages: Map<string, OrganizedImage[]>;
+    settings: ProjectSettings;
+}
+
+const PROJECT_FORMAT = 'riva-project';
+const PROJECT_VERSION = 1;
+const PROJECT_EXTENSION = 'riva';
+const PROJECT_MANIFEST_PATH = 'manifest.json';
+
+// Each entry upgrades a manifest from version `n` to `n + 1`. Add one whenever PROJECT_VERSION is bumped
+// so project files saved by older builds keep opening.
+const PROJECT_MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const isProjectFile = (file: File) => splitFilename(file.name).ext.toLowerCase() === PROJECT_EXTENSION;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Narrows a current-version manifest field by field, so a damaged file fails with a clear message
+// instead of partway through restoring it.
+const validateProjectManifest = (manifest: Record<string, unknown>): ProjectManifest => {
+    const fail = (field: string): never => {
+        throw new Error(`The project file is damaged: ${field} is missing or invalid.`);
+    };
+    const readRecord = (value: unknown, field: string) => isRecord(value) ? value : fail(field);
+    const readArray = (value: unknown, field: string) => Array.isArray(value) ? value : fail(field);
+    const readString = (value: unknown, field: string) => typeof value === 'string' ? value : fail(field);
+    const readOptionalString = (value: unknown, field: string) => value === undefined ? undefined : readString(value, field);
+    const readNumber = (value: unknown, field: string) => typeof value === 'number' && Number.isFinite(value) ? value : fail(field);
+
+    const settings = readRecord(manifest.settings, 'settings');
+    // Older saves may lack processing settings, or some of them; the defaults fill in.
+    const processing = settings.imageProcessing === undefined ? {} : readRecord(settings.imageProcessing, 'settings.imageProcessing');
+    const processingField = (key: keyof ImageProcessingSettings) => processing[key] ?? DEFAULT_IMAGE_PROCESSING[key];
+    const format = processingField('format');
+    const stripMetadata = processingField('stripMetadata');
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: readNumber(manifest.savedAt, 'savedAt'),
+        settings: {
+            filenamePrefix: readString(settings.filenamePrefix, 'settings.filenamePrefix'),
+            filenameTemplate: readString(settings.filenameTemplate, 'settings.filenameTemplate'),
+            exportProfileId: readString(settings.exportProfileId, 'settings.exportProfileId'),
+            imageProcessing: {
+                maxEdge: readNumber(processingField('maxEdge'), 'settings.imageProcessing.maxEdge'),
+                format: OUTPUT_FORMATS.find(known => known === format) ?? fail('settings.imageProcessing.format'),
+                quality: readNumber(processingField('quality'), 'settings.imageProcessing.quality'),
+                stripMetadata: typeof stripMetadata === 'boolean' ? stripMetadata : fail('settings.imageProcessing.stripMetadata'),
+            },
+        },
+        files: readArray(manifest.files, 'files').map((value, index) => {
+            const entry = readRecord(value, `files[${index}]`);
+            return {
+                id: readString(entry.id, `files[${index}].id`),
+                name: readString(entry.name, `files[${index}].name`),
+                type: readString(entry.type, `files[${index}].type`),
+                lastModified: readNumber(entry.lastModified, `files[${index}].lastModified`),
+                path: readString(entry.path, `files[${index}].path`),
+                sourcePath: readOptionalString(entry.sourcePath, `files[${index}].sourcePath`),
+            };
+        }),
+        loadedFileIds: readArray(manifest.loadedFileIds, 'loadedFileIds').map((id, index) => readString(id, `loadedFileIds[${index}]`)),
+        groups: readArray(manifest.groups, 'groups').map((value, groupIndex) => {
+            const group = readRecord(value, `groups[${groupIndex}]`);
+            return {
+                sku: readString(group.sku, `groups[${groupIndex}].sku`),
+                images: readArray(group.images, `groups[${groupIndex}].images`).map((imageValue, index) => {
+                    const field = `groups[${groupIndex}].images[${index}]`;
+                    const image = readRecord(imageValue, field);
+                    return {
+                        id: readString(image.id, `${field}.id`),
+                        fileId: readString(image.fileId, `${field}.fileId`),
+                        prefix: readOptionalString(image.prefix, `${field}.prefix`),
+                        role: readOptionalString(image.role, `${field}.role`),
+                    };
+                }),
+            };
+        }),
+    };
+};
+
+const migrateProjectManifest = (raw: unknown): ProjectManifest => {
+    if (!isRecord(raw) || raw.format !== PROJECT_FORMAT || typeof raw.version !== 'number') {
+        throw new Error('This is not a Riva Choice project file.');
+    }
+    if (raw.version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of Riva Choice (format ${raw.version}). Please update the app.`);
+    }
+    let manifest = raw;
+    for (let version = raw.version; version < PROJECT_VERSION; version++) {
+        const migrate = PROJECT_MIGRATIONS[version];
+        if (!migrate) throw new Error(`Project format ${version} is no longer supported.`);
+        manifest = { ...migrate(manifest), version: version + 1 };
+    }
+    return validateProjectManifest(manifest);
+};
+
+const buildProjectFile = async (files: File[], organizedImages: Map<string, OrganizedImage[]>, settings: ProjectSettings): Promise<Blob> => {
+    const zip = new JSZip();
+    const entries = new Map<string, ProjectFileEntry>();
+    const addFile = (file: File) => {
+        const id = getFileId(file);
+        if (entries.has(id)) return;
+        const path = `images/${id}`;
+        entries.set(id, { id, name: file.name, type: file.type, lastModified: file.lastModified, path, sourcePath: getSourcePath(file) });
+        // Images are already compressed; storing them keeps saving fast.
+        zip.file(path, file, { compression: 'STORE' });
+    };
+    files.forEach(addFile);
+    organizedImages.forEach(imageGroup => imageGroup.forEach(image => addFile(image.file)));
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: Date.now(),
+        settings,
+        files: [...entries.values()],
+        loadedFileIds: files.map(getFileId),
+        groups: [...organizedImages.entries()].map(([sku, imageGroup]) => ({
+            sku,
+            images: imageGroup.map(image => ({ id: image.id, fileId: getFileId(image.file), prefix: image.prefix, role: image.role })),
+        })),
+    };
+    zip.file(PROJECT_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readProjectFile = async (projectFile: File): Promise<OpenedProject> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(projectFile);
+    } catch {
+        throw new Error(`Failed to read ${projectFile.name}. It may be corrupt.`);
+    }
+    const manifestEntry = zip.file(PROJECT_MANIFEST_PATH);
+    if (!manifestEntry) throw new Error(`${projectFile.name} has no ${PROJECT_MANIFEST_PATH}.`);
+    const manifest = migrateProjectManifest(JSON.parse(await manifestEntry.async('string')));
+
+    const restoredFiles = new Map<string, File>();
+    for (const entry of manifest.files) {
+        const data = zip.file(entry.path);
+        if (!data) throw new Error(`${projectFile.name} is missing the image "${entry.name}".`);
+        const blob = await data.async('blob');
+        const file = new File([blob], entry.name, { type: entry.type, lastModified: entry.lastModified });
+        fileIds.set(file, entry.id);
+        setSourcePath(file, entry.sourcePath);
+        restoredFiles.set(entry.id, file);
+    }
+
+    const organizedImages = new Map<string, OrganizedImage[]>();
+    manifest.groups.forEach(({ sku, images }) => {
+        organizedImages.set(sku, images.map(image => {
+            const file = restoredFiles.get(image.fileId);
+            if (!file) throw new Error(`${projectFile.name} is missing file ${image.fileId}, used in ${sku}.`);
+            return createOrganizedImage(file, { id: image.id, prefix: image.prefix, role: image.role });
+        }));
+    });
+
+    return {
+        files: manifest.loadedFileIds.map(id => restoredFiles.get(id)).filter((file): file is File => file !== undefined),
+        organizedImages,
+        settings: manifest.settings,
+    };
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+// --- Undo / Redo History ---
+interface HistoryEntry {
+    label: string;
+    // The organization as it was before (in `past`) or after (in `future`) the labelled action.
+    snapshot: Map<string, OrganizedImage[]>;
+    // Consecutive edits with the same key (e.g. typing into one prefix field) collapse into one entry.
+    coalesceKey?: string;
+}
+
+interface HistoryState {
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+// The organization and its history change together, so every update derives both from the same
+// previous state, even when it lands after an await or next to another update.
+interface OrganizationState {
+    images: Map<string, OrganizedImage[]>;
+    history: HistoryState;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+const EMPTY_ORGANIZATION: OrganizationState = { images: new Map(), history: EMPTY_HISTORY };
+
+// Records the organization in the history and applies `updater`. An updater that returns its
+// input unchanged leaves the state alone.
+const applyOrganizationEdit = (
+    state: OrganizationState,
+    label: string,
+    updater: (prev: Map<string, OrganizedImage[]>) => Map<string, OrganizedImage[]>,
+    coalesceKey?: string,
+): OrganizationState => {
+    const next = updater(state.images);
+    if (next === state.images) return state;
+    const { past, future } = state.history;
+    const last = past[past.length - 1];
+    if (coalesceKey && last?.coalesceKey === coalesceKey && future.length === 0) return { ...state, images: next };
+    return { images: next, history: { past: [...past, { label, snapshot: state.images, coalesceKey }].slice(-MAX_HISTORY_ENTRIES), future: [] } };
+};
+
+const undoOrganization = (state: OrganizationState): OrganizationState => {
+    const { past, future } = state.history;
+    const entry = past[past.length - 1];
+    if (!entry) return state;
+    return { images: entry.snapshot, history: { past: past.slice(0, -1), future: [{ label: entry.label, snapshot: state.images }, ...future] } };
+};
+
+const redoOrganization = (state: OrganizationState): OrganizationState => {
+    const { past, future: [entry, ...remaining] } = state.history;
+    if (!entry) return state;
+    return { images: entry.snapshot, history: { past: [...past, { label: entry.label, snapshot: state.images }], future: remaining } };
+};
+
+// Moves to the state right after `pastLength` actions have been applied.
+const jumpInOrganizationHistory = (state: OrganizationState, pastLength: number): OrganizationState => {
+    const { past, future } = state.history;
+    const timeline = [...past.map(entry => entry.snapshot), state.images, ...future.map(entry => entry.snapshot)];
+    const labels = [...past.map(entry => entry.label), ...future.map(entry => entry.label)];
+    if (pastLength === past.length || pastLength < 0 || pastLength > labels.length) return state;
+    return {
+        images: timeline[pastLength],
+        history: {
+            past: labels.slice(0, pastLength).map((label, index) => ({ label, snapshot: timeline[index] })),
+            future: labels.slice(pastLength).map((label, index) => ({ label, snapshot: timeline[pastLength + index + 1] })),
+        },
+    };
+};
+
+// --- Drag & Drop ---
+// Built on pointer events so it works with mouse, touch and pen alike. Dropping a group on the
+// outer part of another card reorders; dropping on the middle merges.
+type GroupDropPlacement = 'before' | 'after' | 'merge';
+
+interface GroupDropTarget {
+    sku: string;
+    placement: GroupDropPlacement;
+}
+
+// A dragged image lands before the image at `slot`, or at the end when `slot` is the group's length.
+interface ImageDropTarget {
+    sku: string;
+    slot: number;
+}
+
+type DragItem = { kind: 'image'; sku: string; index: number; imageId: string } | { kind: 'group'; sku: string };
+
+// The item being dragged and where its ghost is drawn.
+interface PointerDrag {
+    item: DragItem;
+    x: number;
+    y: number;
+    offsetX: number;
+    offsetY: number;
+    width: number;
+    height: number;
+}
+
+const REORDER_EDGE_FRACTION = 0.25;
+const MERGE_PREVIEW_LIMIT = 8;
+const DRAG_THRESHOLD_PX = 6;
+// Touch and pen pick items up on a long press, so a swipe still scrolls the page.
+const LONG_PRESS_MS = 400;
+const AUTO_SCROLL_EDGE_PX = 80;
+const AUTO_SCROLL_MAX_STEP = 20;
+
+// Pixels to scroll per frame for a pointer near the top or bottom of the viewport, faster closer
+// to the edge.
+const getAutoScrollStep = (y: number) => {
+    const fromBottom = window.innerHeight - y;
+    if (y < AUTO_SCROLL_EDGE_PX) return -Math.ceil(AUTO_SCROLL_MAX_STEP * (1 - Math.max(y, 0) / AUTO_SCROLL_EDGE_PX));
+    if (fromBottom < AUTO_SCROLL_EDGE_PX) return Math.ceil(AUTO_SCROLL_MAX_STEP * (1 - Math.max(fromBottom, 0) / AUTO_SCROLL_EDGE_PX));
+    return 0;
+};
+
+// Over a thumbnail the slot is before or after it, whichever half the pointer is on; anywhere else
+// in a group card it is the end of the group. Over the placeholder the target stays as it is.
+const findImageDropTarget = (x: number, y: number, current: ImageDropTarget | null): ImageDropTarget | null => {
+    const element = document.elementFromPoint(x, y);
+    if (element?.closest('.image-drop-placeholder')) return current;
+    const card = element?.closest<HTMLElement>('.group-card[data-sku]');
+    if (!element || !card) return null;
+    const thumbnail = element.closest<HTMLElement>('.image-container[data-index]');
+    if (!thumbnail) return { sku: card.dataset.sku!, slot: Number(card.dataset.count) };
+    const box = thumbnail.getBoundingClientRect();
+    const index = Number(thumbnail.dataset.index);
+    return { sku: card.dataset.sku!, slot: x < box.left + box.width / 2 ? index : index + 1 };
+};
+
+const findGroupDropTarget = (x: number, y: number, draggedSku: string, canReorder: boolean): GroupDropTarget | null => {
+    const card = document.elementFromPoint(x, y)?.closest<HTMLElement>('.group-card[data-sku]');
+    if (!card || card.dataset.sku === draggedSku) return null;
+    const box = card.getBoundingClientRect();
+    const fraction = (x - box.left) / box.width;
+    const placement: GroupDropPlacement = !canReorder ? 'merge'
+        : fraction < REORDER_EDGE_FRACTION ? 'before' : fraction > 1 - REORDER_EDGE_FRACTION ? 'after' : 'merge';
+    return { sku: card.dataset.sku!, placement };
+};
+
+const isTextInput = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// --- Keyboard Workflow ---
+const KEYBOARD_SHORTCUTS: [string, string][] = [
+    ['← → ↑ ↓', 'Move focus between images'],
+    ['Home / End', 'First / last image of the group'],
+    ['Alt + ← / →', 'Move the image left / right within its group'],
+    ['Alt + ↑ / ↓', 'Move the image to the previous / next group'],
+    ['Space', 'Select or deselect the image'],
+    ['Enter', 'Open the image in the lightbox'],
+    ['M or Ctrl + K', 'Assign the selection, or the focused image, to a SKU'],
+    ['Delete', 'Delete the selection, or the focused image'],
+    ['Esc', 'Close the lightbox or palette, clear the selection'],
+    ['Ctrl + Z / Ctrl + Shift + Z', 'Undo / redo'],
+    ['?', 'Show these shortcuts'],
+];
+
+const PALETTE_OPTION_LIMIT = 50;
+
+interface PaletteOption {
+    sku: string;
+    label: string;
+    detail: string;
+}
+
+const getThumbnail = (imageId: string) =>
+    document.querySelector<HTMLElement>(`.image-container[data-image-id="${CSS.escape(imageId)}"]`);
+
+// The thumbnail in the nearest row above or below `element`, closest to it horizontally. Works
+// across group cards, since the grid wraps them into rows of their own.
+const findThumbnailInDirection = (element: HTMLElement, direction: 'up' | 'down'): HTMLElement | null => {
+    const box = element.getBoundingClientRect();
+    const centerX = box.left + box.width / 2;
+    const candidates = Array.from(document.querySelectorAll<HTMLElement>('.image-container[data-image-id]'))
+        .map(candidate => {
+            const rect = candidate.getBoundingClientRect();
+            return { candidate, offset: direction === 'up' ? box.top - rect.top : rect.top - box.top, distance: Math.abs(rect.left + rect.width / 2 - centerX) };
+        })
+        .filter(({ offset }) => offset > box.height / 2);
+    if (candidates.length === 0) return null;
+    const nearestRow = Math.min(...candidates.map(({ offset }) => offset));
+    return candidates
+        .filter(({ offset }) => offset <= nearestRow + box.height / 2)
+        .reduce((best, candidate) => candidate.distance < best.distance ? candidate : best).candidate;
+};
+
+// --- Duplicate Detection on Upload ---
+interface SkippedUpload {
+    name: string;
+    reason: string;
+}
+
+const fileHashes = new WeakMap<File, Promise<string>>();
+
+// SHA-256 of the file contents, computed once per File object.
+const getFileHash = (file: File): Promise<string> => {
+    let hash = fileHashes.get(file);
+    if (!hash) {
+        hash = sha256Hex(file);
+        fileHashes.set(file, hash);
+    }
+    return hash;
+};
+
+const getNameSizeKey = (file: File) => `${file.name.toLowerCase()}:${file.size}`;
+
+const findLoadedDuplicate = async (file: File, loadedFiles: File[]): Promise<SkippedUpload | null> => {
+    const nameMatch = loadedFiles.find(loaded => getNameSizeKey(loaded) === getNameSizeKey(file));
+    if (nameMatch) return { name: file.name, reason: 'same name and size as an image already loaded' };
+    for (const loaded of loadedFiles) {
+        if (loaded.size === file.size && await getFileHash(loaded) === await getFileHash(file)) {
+            return { name: file.name, reason: `identical content to ${loaded.name}` };
+        }
+    }
+    return null;
+};
+
+// Splits incoming files into new ones and ones already present (by name + size, then by content).
+// Only loaded files the same size as an incoming one are hashed, one at a time, so a late batch
+// doesn't read every loaded image into memory at once. Files loaded while hashing are checked
+// against the accepted ones before returning.
+const findDuplicateUploads = async (getLoadedFiles: () => File[], incomingFiles: File[]) => {
+    const checkedFiles = new Set(getLoadedFiles());
+    const knownNames = new Map<string, File>();
+    const unhashedBySize = new Map<number, File[]>();
+    checkedFiles.forEach(file => {
+        knownNames.set(getNameSizeKey(file), file);
+        unhashedBySize.set(file.size, [...(unhashedBySize.get(file.size) || []), file]);
+    });
+    const hashesBySize = new Map<number, Map<string, File>>();
+    const getKnownHashes = async (size: number) => {
+        let hashes = hashesBySize.get(size);
+        if (!hashes) {
+            hashes = new Map();
+            hashesBySize.set(size, hashes);
+        }
+        for (const file of unhashedBySize.get(size) || []) hashes.set(await getFileHash(file), file);
+        unhashedBySize.delete(size);
+        return hashes;
+    };
+
+    let accepted: File[] = [];
+    const skipped: SkippedUpload[] = [];
+    for (const file of incomingFiles) {
+        const nameMatch = knownNames.get(getNameSizeKey(file));
+        if (nameMatch) {
+            skipped.push({ name: file.name, reason: 'same name and size as an image already loaded' });
+            continue;
+        }
+        const knownHashes = await getKnownHashes(file.size);
+        const hash = await getFileHash(file);
+        const contentMatch = knownHashes.get(hash);
+        if (contentMatch) {
+            skipped.push({ name: file.name, reason: `identical content to ${contentMatch.name}` });
+            continue;
+        }
+        knownNames.set(getNameSizeKey(file), file);
+        knownHashes.set(hash, file);
+        accepted.push(file);
+    }
+
+    let newlyLoaded = getLoadedFiles().filter(file => !checkedFiles.has(file));
+    while (newlyLoaded.length > 0) {
+        newlyLoaded.forEach(file => checkedFiles.add(file));
+        const stillNew: File[] = [];
+        for (const file of accepted) {
+            const duplicate = await findLoadedDuplicate(file, newlyLoaded);
+            if (duplicate) skipped.push(duplicate);
+            else stillNew.push(file);
+        }
+        accepted = stillNew;
+        newlyLoaded = getLoadedFiles().filter(file => !checkedFiles.has(file));
+    }
+    return { accepted, skipped };
+};
+
+// --- Image Analysis ---
+// What the duplicate and quality checks need from the decoded pixels.
+interface ImageAnalysis {
+    fingerprint: ImageFingerprint;
+    metrics: ImageMetrics;
+}
+
+const analysisCache = new WeakMap<File, Promise<ImageAnalysis | null>>();
+
+// Decodes the image once and measures a small sample of it. Null when the browser can't decode it.
+const analyzeImage = (file: File): Promise<ImageAnalysis | null> => {
+    let analysis = analysisCache.get(file);
+    if (!analysis) {
+        analysis = (async () => {
+            const bitmap = await createImageBitmap(file);
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = FINGERPRINT_SAMPLE_WIDTH;
+                canvas.height = FINGERPRINT_SAMPLE_HEIGHT;
+                const context = canvas.getContext('2d', { willReadFrequently: true });
+                if (!context) return null;
+                context.imageSmoothingQuality = 'high';
+                context.drawImage(bitmap, 0, 0, FINGERPRINT_SAMPLE_WIDTH, FINGERPRINT_SAMPLE_HEIGHT);
+                const { data } = context.getImageData(0, 0, FINGERPRINT_SAMPLE_WIDTH, FINGERPRINT_SAMPLE_HEIGHT);
+                const { width, height } = bitmap;
+                return {
+                    fingerprint: { hash: computeDHash(data, FINGERPRINT_SAMPLE_WIDTH, FINGERPRINT_SAMPLE_HEIGHT), width, height },
+                    metrics: { width, height, borderWhiteness: measureBorderWhiteness(data, FINGERPRINT_SAMPLE_WIDTH, FINGERPRINT_SAMPLE_HEIGHT) },
+                };
+            } finally {
+                bitmap.close();
+            }
+        })().catch(() => null);
+        analysisCache.set(file, analysis);
+    }
+    return analysis;
+};
+
+// --- Quality Checks ---
+const QUALITY_RULES_STORAGE_KEY = 'qualityRules';
+
+const loadQualityRules = (): QualityRules => {
+    try {
+        const stored = localStorage.getItem(QUALITY_RULES_STORAGE_KEY);
+        if (stored) return normalizeQualityRules(JSON.parse(stored));
+    } catch (err) {
+        console.error("Failed to load quality rules:", err);
+    }
+    return DEFAULT_QUALITY_RULES;
+};
+
+// --- Background ZIP Jobs ---
+interface WorkerJob<T> {
+    promise: Promise<T>;
+    cancel: () => void;
+}
+
+interface JobProgress {
+    label: string;
+    percent: number;
+    currentFile: string | null;
+}
+
+class JobCancelledError extends Error {
+    constructor() {
+        super('Cancelled.');
+        this.name = 'JobCancelledError';
+    }
+}
+
+// Exports bigger than this are written straight to disk when the browser can, instead of as one Blob.
+const STREAM_TO_DISK_THRESHOLD = 1024 * 1024 * 1024;
+
+const startZipWorkerJob = <T,>(
+    request: ZipWorkerRequest,
+    onMessage: (response: ZipWorkerResponse, worker: Worker, resolve: (value: T) => void, reject: (error: Error) => void) => void,
+): WorkerJob<T> => {
+    const worker = new Worker(new URL('./zip.worker.ts', import.meta.url), { type: 'module' });
+    let rejectJob: (error: Error) => void = () => {};
+    const promise = new Promise<T>((resolve, reject) => {
+        const settleResolve = (value: T) => {
+            worker.terminate();
+            resolve(value);
+        };
+        const settleReject = (error: Error) => {
+            worker.terminate();
+            reject(error);
+        };
+        rejectJob = settleReject;
+        worker.onmessage = (event: MessageEvent<ZipWorkerResponse>) => {
+            if (event.data.type === 'error') settleReject(new Error(event.data.message));
+            else onMessage(event.data, worker, settleResolve, settleReject);
+        };
+        worker.onerror = (event) => {
+            event.preventDefault();
+            settleReject(new Error(event.message || 'The ZIP worker stopped unexpectedly.'));
+        };
+    });
+    worker.postMessage(request);
+    return { promise, cancel: () => rejectJob(new JobCancelledError()) };
+};
+
+// Builds a ZIP in a worker. With a `writer` the archive is streamed into it chunk by chunk and the
+// job resolves to null; otherwise it resolves to the finished Blob.
+const zipInWorker = (
+    entries: ZipEntry[],
+    onProgress: (percent: number, currentFile: string | null) => void,
+    writer: WritableStreamDefaultWriter<Uint8Array> | null = null,
+): WorkerJob<Blob | null> => startZipWorkerJob<Blob | null>({ type: 'zip', entries, stream: writer !== null }, (response, worker, resolve, reject) => {
+    if (response.type === 'progress') {
+        onProgress(response.percent, response.currentFile);
+    } else if (response.type === 'chunk' && writer) {
+        writer.write(response.data).then(() => worker.postMessage({ type: 'ack' } satisfies ZipWorkerRequest), reject);
+    } else if (response.type === 'zipped') {
+        resolve(response.blob);
+    }
+});
+
+const extractZipInWorker = (
+    archive: Blob,
+    archivePath: string,
+    maxDepth: number,
+    onProgress: (percent: number, currentFile: string | null) => void,
+): WorkerJob<{ files: File[]; warnings: string[] }> => startZipWorkerJob({ type: 'extract', archive, archivePath, maxDepth }, (response, worker, resolve) => {
+    if (response.type === 'progress') {
+        onProgress(response.percent, response.currentFile);
+    } else if (response.type === 'extracted') {
+        const files = response.files.map(entry => {
+            const file = new File([entry.data], entry.name, { type: entry.data.type });
+            setSourcePath(file, entry.path);
+            return file;
+        });
+        resolve({ files, warnings: response.warnings });
+    }
+});
+
+// Asks where to save a large export so it can be streamed to disk. Returns null to fall back to a
+// normal Blob download, and throws JobCancelledError if the user dismisses the save dialog.
+const openStreamingDownload = async (filename: string, estimatedBytes: number): Promise<FileSystemWritableFileStream | null> => {
+    if (estimatedBytes < STREAM_TO_DISK_THRESHOLD || !window.showSaveFilePicker) return null;
+    try {
+        const handle = await window.showSaveFilePicker({ suggestedName: filename });
+        return await handle.createWritable();
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') throw new JobCancelledError();
+        console.error("Falling back to an in-memory download:", err);
+        return null;
+    }
+};
+
+// --- Split Exports ---
+const MAX_PART_SIZE_STORAGE_KEY = 'maxPartSize';
+const MB = 1024 * 1024;
+const PART_SIZE_OPTIONS = [
+    { label: 'No limit', bytes: 0 },
+    { label: '100 MB', bytes: 100 * MB },
+    { label: '500 MB', bytes: 500 * MB },
+    { label: '1 GB', bytes: 1024 * MB },
+    { label: '2 GB', bytes: 2048 * MB },
+    { label: '4 GB', bytes: 4096 * MB },
+];
+
+// --- Export Manifest ---
+const INCLUDE_MANIFEST_STORAGE_KEY = 'includeManifest';
+
+// --- SKU Catalog ---
+const CATALOG_STORAGE_KEY = 'skuCatalog';
+const MIN_IMAGES_STORAGE_KEY = 'coverageMinImages';
+
+const loadCatalog = (): Catalog | null => {
+    try {
+        const stored = localStorage.getItem(CATALOG_STORAGE_KEY);
+        if (stored) {
+            const { name, entries } = JSON.parse(stored);
+            return createCatalog(name, entries);
+        }
+    } catch (err) {
+        console.error("Failed to load the SKU catalog:", err);
+    }
+    return null;
+};
+
+// Suggestions per group key for each catalog, so a rename or move only ranks keys not seen before.
+const skuSuggestionCache = new WeakMap<Catalog, Map<string, SkuSuggestion[]>>();
+
+// --- Save to Folder ---
+type ConflictMode = 'skip' | 'overwrite' | 'rename';
+
+interface FolderWriteResult {
+    path: string;
+    status: 'written' | 'overwritten' | 'renamed' | 'skipped' | 'failed';
+    detail?: string;
+}
+
+const CONFLICT_MODE_LABELS: Record<ConflictMode, string> = {
+    skip: 'Skip existing files',
+    overwrite: 'Overwrite existing files',
+    rename: 'Keep both (rename new)',
+};
+
+const fileExistsInDirectory = async (directory: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+    try {
+        await directory.getFileHandle(name);
+        return true;
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'NotFoundError') return false;
+        throw err;
+    }
+};
+
+// "photo.jpg" -> "photo (1).jpg", "photo (2).jpg", ... whichever is free first.
+const getAvailableFilename = async (directory: FileSystemDirectoryHandle, name: string): Promise<string> => {
+    const { basename, ext } = splitFilename(name);
+    for (let copy = 1; ; copy++) {
+        const candidate = `${basename} (${copy})${ext ? `.${ext}` : ''}`;
+        if (!await fileExistsInDirectory(directory, candidate)) return candidate;
+    }
+};
+
+// Writes one export entry below `root`, creating its SKU folder as needed. Never throws; failures are
+// reported in the result so one bad file doesn't stop the rest.
+const writeEntryToDirectory = async (root: FileSystemDirectoryHandle, entry: ZipEntry, conflictMode: ConflictMode): Promise<FolderWriteResult> => {
+    try {
+        const segments = entry.path.split('/');
+        let filename = segments.pop()!;
+        let directory = root;
+        for (const segment of segments) {
+            directory = await directory.getDirectoryHandle(segment, { create: true });
+        }
+
+        let status: FolderWriteResult['status'] = 'written';
+        if (await fileExistsInDirectory(directory, filename)) {
+            if (conflictMode === 'skip') return { path: entry.path, status: 'skipped', detail: 'File already exists' };
+            if (conflictMode === 'rename') {
+                filename = await getAvailableFilename(directory, filename);
+                status = 'renamed';
+            } else {
+                status = 'overwritten';
+            }
+        }
+
+        const fileHandle = await directory.getFileHandle(filename, { create: true });
+        const writable = await fileHandle.createWritable();
+        await writable.write(entry.data);
+        await writable.close();
+        const path = [...segments, filename].join('/');
+        return { path, status, detail: status === 'renamed' ? `Saved as ${filename}` : undefined };
+    } catch (err) {
+        return { path: entry.path, status: 'failed', detail: err instanceof Error ? err.message : 'Unknown error' };
+    }
+};
+
 const App = () => {
     const [files, setFiles] = useState<File[]>([]);
-    const [organizedImages, setOrganizedImages] = useState<Map<string, OrganizedImage[]>>(new Map());
+    const [organization, setOrganization] = useState<OrganizationState>(EMPTY_ORGANIZATION);
+    const { images: organizedImages, history } = organization;
+    // The latest rendered values, for async work that resumes after an await.
+    const filesRef = useRef(files);
+    filesRef.current = files;
+    const organizedImagesRef = useRef(organizedImages);
+    organizedImagesRef.current = organizedImages;
+    const [showHistory, setShowHistory] = useState(false);
+    const liveUrlsRef = useRef<Set<string>>(new Set());
     const [isLoading, setIsLoading] = useState(false);
     const [isProcessingFiles, setIsProcessingFiles] = useState(false);
     const [isZippingAll, setIsZippingAll] = useState(false);
     const [zippingFolder, setZippingFolder] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [draggedItem, setDraggedItem] = useState<{ group: string; index: number } | null>(null);
+    const [pointerDrag, setPointerDrag] = useState<PointerDrag | null>(null);
+    const [imageDropTarget, setImageDropTarget] = useState<ImageDropTarget | null>(null);
     const [theme, setTheme] = useState(localStorage.getItem('theme') || 'dark');
     const [thumbnailWidth, setThumbnailWidth] = useState(280);
     const [filenamePrefix, setFilenamePrefix] = useState('eci');
+    const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+    const [imageProcessing, setImageProcessing] = useState<ImageProcessingSettings>(loadImageProcessingSettings);
+    const [showProcessingSettings, setShowProcessingSettings] = useState(false);
+    const [exportSizes, setExportSizes] = useState<Record<string, ExportSizeReport>>({});
+    const [maxPartBytes, setMaxPartBytes] = useState(Number(localStorage.getItem(MAX_PART_SIZE_STORAGE_KEY)) || 0);
+    const [includeManifest, setIncludeManifest] = useState(localStorage.getItem(INCLUDE_MANIFEST_STORAGE_KEY) === 'true');
+    const [isSavingToFolder, setIsSavingToFolder] = useState(false);
+    const [conflictMode, setConflictMode] = useState<ConflictMode>('rename');
+    const [folderWriteResults, setFolderWriteResults] = useState<FolderWriteResult[] | null>(null);
+    const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+    const activeJobsRef = useRef<Set<WorkerJob<unknown>>>(new Set());
+    const cancelRequestedRef = useRef(false);
+    const [exportProfileId, setExportProfileId] = useState(getExportProfile(localStorage.getItem(EXPORT_PROFILE_STORAGE_KEY)).id);
     
     // State for new features
     const [editingSku, setEditingSku] = useState<string | null>(null);
-    const [draggedGroupSku, setDraggedGroupSku] = useState<string | null>(null);
+    const [groupDropTarget, setGroupDropTarget] = useState<GroupDropTarget | null>(null);
+    const [pendingMerge, setPendingMerge] = useState<{ sourceSku: string; targetSku: string } | null>(null);
     const [showDriveHelper, setShowDriveHelper] = useState(false);
+
+    // SKU rule state
+    const [skuRuleSets, setSkuRuleSets] = useState<SkuRuleSet[]>(loadSkuRuleSets);
+    const [activeRuleSetId, setActiveRuleSetId] = useState(localStorage.getItem(ACTIVE_RULE_SET_STORAGE_KEY) || '');
+    const [showRuleEditor, setShowRuleEditor] = useState(false);
+    
+    // Session persistence state. Autosave stays off until any stored session was restored or discarded.
+    const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+    const [isSessionReady, setIsSessionReady] = useState(false);
+    const [isRestoringSession, setIsRestoringSession] = useState(false);
+    const [isSavingProject, setIsSavingProject] = useState(false);
+
+    // Upload mode state
+    const [appendMode, setAppendMode] = useState(false);
+    const [skippedUploads, setSkippedUploads] = useState<SkippedUpload[]>([]);
+    const [useFolderAsSku, setUseFolderAsSku] = useState(false);
+    const [mappingSheet, setMappingSheet] = useState<MappingSheet | null>(null);
+    const [mappingReport, setMappingReport] = useState<MappingReport | null>(null);
+    const [nestedZipDepth, setNestedZipDepth] = useState(DEFAULT_NESTED_ZIP_DEPTH);
+
+    // Catalog validation state
+    const [catalog, setCatalog] = useState<Catalog | null>(loadCatalog);
+    const [unknownSkus, setUnknownSkus] = useState<Map<string, SkuSuggestion[]>>(new Map());
+    const [showCoverageReport, setShowCoverageReport] = useState(false);
+
+    // Image analysis, shared by the duplicate and quality checks. Undecodable files map to null.
+    const [analyses, setAnalyses] = useState<Map<File, ImageAnalysis | null>>(new Map());
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const analysisQueue = useRef(new Set<File>());
+    const [qualityRules, setQualityRules] = useState<QualityRules>(loadQualityRules);
+    const [showQualitySettings, setShowQualitySettings] = useState(false);
+
+    // Duplicate review state
+    const [fileClusterIds, setFileClusterIds] = useState<Map<File, number>>(new Map());
+    const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster<OrganizedImage>[]>([]);
+    const [dismissedDuplicates, setDismissedDuplicates] = useState<Set<string>>(new Set());
+    const [duplicateKeepIds, setDuplicateKeepIds] = useState<Record<string, string>>({});
+    const [showDuplicateReview, setShowDuplicateReview] = useState(false);
+
+    // Multi-select state. The anchor is where shift-click ranges start.
+    const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(new Set());
+    const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+    const [bulkSku, setBulkSku] = useState('');
+    const [bulkPrefix, setBulkPrefix] = useState('');
+    const [lassoRect, setLassoRect] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+
+    // Keyboard workflow state. The focused thumbnail is the one Tab returns to in the results; the
+    // palette is open while it has images to assign.
+    const [focusedImageId, setFocusedImageId] = useState<string | null>(null);
+    const pendingFocusId = useRef<string | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const [paletteTargetIds, setPaletteTargetIds] = useState<Set<string> | null>(null);
+    const [paletteQuery, setPaletteQuery] = useState('');
+    const [paletteIndex, setPaletteIndex] = useState(0);
+    const [showShortcuts, setShowShortcuts] = useState(false);
+
+    // Results toolbar state
+    const [groupFilter, setGroupFilter] = useState<GroupFilter>(DEFAULT_GROUP_FILTER);
+    const [groupModifiedAt, setGroupModifiedAt] = useState<Map<string, number>>(new Map());
+    const previousGroups = useRef(organizedImages);
+    const [minImages, setMinImages] = useState(() => {
+        const stored = Number(localStorage.getItem(MIN_IMAGES_STORAGE_KEY));
+        return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_MIN_IMAGES;
+    });
     
     // Lightbox state
     const [lightboxOpen, setLightboxOpen] = useState(false);
     const [lightboxImages, setLightboxImages] = useState<OrganizedImage[]>([]);
     const [lightboxIndex, setLightboxIndex] = useState(0);
 
-    const isAnyZipping = isZippingAll || zippingFolder !== null;
+    const isAnyZipping = isZippingAll || zippingFolder !== null || isSavingToFolder;
+    const activeRuleSet = skuRuleSets.find(set => set.id === activeRuleSetId) || skuRuleSets[0];
+    const exportProfile = getExportProfile(exportProfileId);
+    const effectiveTemplate = getEffectiveTemplate(exportProfile, filenameTemplate);
+    const templateError = validateFilenameTemplate(effectiveTemplate);
+
+    let templatePreview = '';
+    let templatePreviewError = templateError;
+    if (!templateError) {
+        try {
+            const sampleFile = new File([], 'IMG_4821.jpg');
+            templatePreview = renderFilename(effectiveTemplate, { seq: 1, sku: '240511-00123-010', prefix: filenamePrefix.trim(), file: sampleFile, role: getImageRole(0, exportProfile.roleStyle) });
+        } catch (err) {
+            templatePreviewError = err instanceof Error ? err.message : 'Invalid template.';
+        }
+    }
 
     useEffect(() => {
         document.documentElement.setAttribute('data-theme', theme);
         localStorage.setItem('theme', theme);
     }, [theme]);
 
+    useEffect(() => {
+        localStorage.setItem(SKU_RULES_STORAGE_KEY, JSON.stringify(skuRuleSets));
+        localStorage.setItem(ACTIVE_RULE_SET_STORAGE_KEY, activeRuleSet.id);
+    }, [skuRuleSets, activeRuleSet.id]);
+
+    useEffect(() => {
+        localStorage.setItem(EXPORT_PROFILE_STORAGE_KEY, exportProfileId);
+    }, [exportProfileId]);
+
+    useEffect(() => {
+        localStorage.setItem(MAX_PART_SIZE_STORAGE_KEY, String(maxPartBytes));
+    }, [maxPartBytes]);
+
+    useEffect(() => {
+        localStorage.setItem(INCLUDE_MANIFEST_STORAGE_KEY, String(includeManifest));
+    }, [includeManifest]);
+
+    useEffect(() => {
+        try {
+            if (catalog) localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify({ name: catalog.name, entries: catalog.entries }));
+            else localStorage.removeItem(CATALOG_STORAGE_KEY);
+        } catch (err) {
+            console.error("Failed to save the SKU catalog:", err);
+        }
+    }, [catalog]);
+
+    useEffect(() => {
+        localStorage.setItem(MIN_IMAGES_STORAGE_KEY, String(minImages));
+    }, [minImages]);
+
+    useEffect(() => {
+        localStorage.setItem(QUALITY_RULES_STORAGE_KEY, JSON.stringify(qualityRules));
+    }, [qualityRules]);
+
+    // Analyzes newly organized images in the background, one at a time so a large batch doesn't
+    // hold every decoded bitmap in memory at once. Analyses of images that are no longer organized
+    // are dropped; analysisCache makes getting one back through undo cheap.
+    useEffect(() => {
+        const organizedFiles = new Set([...organizedImages.values()].flat().map(image => image.file));
+        if ([...analyses.keys()].some(file => !organizedFiles.has(file))) {
+            setAnalyses(prev => new Map([...prev].filter(([file]) => organizedFiles.has(file))));
+            return;
+        }
+        const pending = [...organizedFiles].filter(file => !analyses.has(file) && !analysisQueue.current.has(file));
+        if (pending.length === 0) return;
+        pending.forEach(file => analysisQueue.current.add(file));
+        setIsAnalyzing(true);
+        (async () => {
+            const results = new Map<File, ImageAnalysis | null>();
+            for (const file of pending) results.set(file, await analyzeImage(file));
+            pending.forEach(file => analysisQueue.current.delete(file));
+            const currentFiles = new Set([...organizedImagesRef.current.values()].flat().map(image => image.file));
+            setAnalyses(prev => new Map([...prev, ...[...results].filter(([file]) => currentFiles.has(file))]));
+            setIsAnalyzing(analysisQueue.current.size > 0);
+        })();
+    }, [organizedImages, analyses]);
+
+    // Operations keep the array of every group they don't touch, so a new array means a change.
+    useEffect(() => {
+        const previous = previousGroups.current;
+        previousGroups.current = organizedImages;
+        const now = Date.now();
+        setGroupModifiedAt(prev => {
+            const next = new Map<string, number>();
+            organizedImages.forEach((images, sku) => next.set(sku, previous.get(sku) === images && prev.has(sku) ? prev.get(sku)! : now));
+            return next;
+        });
+    }, [organizedImages]);
+
+    // Drops selected ids whose images were deleted, merged away by undo, etc.
+    useEffect(() => {
+        setSelectedImageIds(prev => {
+            if (prev.size === 0) return prev;
+            const existing = new Set([...organizedImages.values()].flat().map(image => image.id));
+            const next = new Set([...prev].filter(id => existing.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [organizedImages]);
+
+    // A keyboard move re-renders the thumbnail elsewhere (or closes a dialog); focus follows it.
+    useEffect(() => {
+        if (!pendingFocusId.current) return;
+        getThumbnail(pendingFocusId.current)?.focus();
+        pendingFocusId.current = null;
+    });
+
+    // Only organized images are analyzed, so the pairwise comparison runs when images are added or
+    // removed; other edits just regroup its result.
+    useEffect(() => {
+        const fingerprints = new Map<File, ImageFingerprint>();
+        analyses.forEach((analysis, file) => {
+            if (analysis) fingerprints.set(file, analysis.fingerprint);
+        });
+        setFileClusterIds(clusterFingerprints(fingerprints));
+    }, [analyses]);
+
+    useEffect(() => {
+        setDuplicateClusters(buildDuplicateClusters(organizedImages, image => analyses.get(image.file)?.fingerprint, image => fileClusterIds.get(image.file)));
+    }, [organizedImages, fileClusterIds]);
+
+    const qualityIssues = checkImageQuality(organizedImages, image => analyses.get(image.file)?.metrics, qualityRules);
+    const qualityRulesError = getQualityRulesError(qualityRules);
+
+    const groupHasIssues = (sku: string) => {
+        const imageGroup = organizedImages.get(sku) || [];
+        return unknownSkus.has(sku)
+            || imageGroup.some(image => qualityIssues.has(image.id))
+            || getProfileViolations(exportProfile, imageGroup, imageProcessing).length > 0;
+    };
+    const groupFilterContext = { hasIssues: groupHasIssues, getModifiedAt: (sku: string) => groupModifiedAt.get(sku) };
+    const visibleSkus = filterGroups(organizedImages, groupFilter, groupFilterContext);
+    const isFilterActive = isGroupFilterActive(groupFilter);
+    const groupFilterError = getGroupFilterError(groupFilter);
+    // Download All and Save to Folder only export what the filter shows.
+    const exportableGroups = isFilterActive ? getFilteredGroups(organizedImages, visibleSkus) : organizedImages;
+    const setGroupFilterField = <K extends keyof GroupFilter>(key: K, value: GroupFilter[K]) => setGroupFilter(prev => ({ ...prev, [key]: value }));
+
+    // Unknown keys are only looked up when the set of group keys changes, not on every edit.
+    const groupKeys = [...organizedImages.keys()].join('\n');
+    useEffect(() => {
+        if (!catalog || !groupKeys) {
+            setUnknownSkus(new Map());
+            return;
+        }
+        let cache = skuSuggestionCache.get(catalog);
+        if (!cache) {
+            cache = new Map();
+            skuSuggestionCache.set(catalog, cache);
+        }
+        setUnknownSkus(findUnknownSkus(catalog, groupKeys.split('\n'), cache));
+    }, [catalog, groupKeys]);
+
+    useEffect(() => {
+        localStorage.setItem(IMAGE_PROCESSING_STORAGE_KEY, JSON.stringify(imageProcessing));
+        setExportSizes({});
+    }, [imageProcessing]);
+
+    useEffect(() => {
+        loadStoredSession()
+            .then(session => {
+                if (session && (session.fileIds.length > 0 || session.groups.length > 0)) {
+                    setPendingSession(session);
+                } else {
+                    setIsSessionReady(true);
+                }
+            })
+            .catch(err => {
+                console.error("Failed to read saved session:", err);
+                setIsSessionReady(true);
+            });
+    }, []);
+
+    useEffect(() => {
+        if (!isSessionReady) return;
+        const timer = setTimeout(() => {
+            saveStoredSession(files, organizedImages, { filenamePrefix, filenameTemplate })
+                .catch(err => console.error("Failed to autosave session:", err));
+        }, SESSION_AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [isSessionReady, files, organizedImages, filenamePrefix, filenameTemplate]);
+
     const toggleTheme = () => {
         setTheme(prevTheme => prevTheme === 'dark' ? 'light' : 'dark');
     };
 
+    // Object URLs are revoked only once no current or historical organization references them,
+    // so deleted images can still be brought back by undo.
+    useEffect(() => {
+        const liveUrls = new Set<string>();
+        const collectUrls = (map: Map<string, OrganizedImage[]>) => map.forEach(imageGroup => imageGroup.forEach(img => liveUrls.add(img.url)));
+        collectUrls(organizedImages);
+        history.past.forEach(entry => collectUrls(entry.snapshot));
+        history.future.forEach(entry => collectUrls(entry.snapshot));
+        liveUrlsRef.current.forEach(url => {
+            if (!liveUrls.has(url)) URL.revokeObjectURL(url);
+        });
+        liveUrlsRef.current = liveUrls;
+    }, [organizedImages, history]);
+
     // Cleanup object URLs to prevent memory leaks
     useEffect(() => {
         return () => {
-            // This cleanup now only runs when the component unmounts.
-            // The `clearOrganizedImages` function handles cleanup during re-organization.
-            organizedImages.forEach(imageGroup => {
-                imageGroup.forEach(img => URL.revokeObjectURL(img.url));
-            });
+            liveUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
         };
     }, []);
 
-    const clearOrganizedImages = () => {
-        organizedImages.forEach(imageGroup => {
-            imageGroup.forEach(img => URL.revokeObjectURL(img.url));
-        });
-        setOrganizedImages(new Map());
+    const updateOrganizedImages = (label: string, updater: (prev: Map<string, OrganizedImage[]>) => Map<string, OrganizedImage[]>, coalesceKey?: string) => {
+        setOrganization(prev => applyOrganizationEdit(prev, label, updater, coalesceKey));
     };
 
-    const extractImagesFromZip = async (zipFile: File): Promise<File[]> => {
+    // Replaces the organization wholesale (new upload, restore, project) and starts a fresh history.
+    const replaceOrganizedImages = (next: Map<string, OrganizedImage[]> = new Map()) => {
+        setOrganization({ images: next, history: EMPTY_HISTORY });
+    };
+
+    const clearOrganizedImages = () => replaceOrganizedImages();
+
+    const handleUndo = () => {
+        const entry = history.past[history.past.length - 1];
+        if (!entry) return;
+        setOrganization(undoOrganization);
+        announce(`Undone: ${entry.label}.`);
+    };
+
+    const handleRedo = () => {
+        const entry = history.future[0];
+        if (!entry) return;
+        setOrganization(redoOrganization);
+        announce(`Redone: ${entry.label}.`);
+    };
+
+    const handleJumpToHistory = (pastLength: number) => {
+        setOrganization(prev => jumpInOrganizationHistory(prev, pastLength));
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (lightboxOpen) {
+                if (e.key === 'ArrowLeft') showPrevImage();
+                else if (e.key === 'ArrowRight') showNextImage();
+                else if (e.key === 'Escape') closeLightbox();
+                else return;
+                e.preventDefault();
+                return;
+            }
+            // The palette's field handles its own keys.
+            if (paletteTargetIds) return;
+            if (e.key === 'Escape' && showShortcuts) {
+                setShowShortcuts(false);
+                return;
+            }
+            if (e.key === 'Escape' && selectedImageIds.size > 0 && !isTextInput(e.target)) {
+                setSelectedImageIds(new Set());
+                announce('Selection cleared.');
+                return;
+            }
+            if (e.key === '?' && !isTextInput(e.target)) {
+                setShowShortcuts(true);
+                return;
+            }
+            if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'k') {
+                e.preventDefault();
+                openCommandPalette();
+            } else if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // --- Session Restore ---
+    const handleRestoreSession = async () => {
+        if (!pendingSession) return;
+        setIsRestoringSession(true);
+        setError(null);
         try {
-            const zip = await JSZip.loadAsync(zipFile);
-            const imageFilePromises: Promise<File>[] = [];
-            
-            zip.forEach((relativePath, zipEntry) => {
-                if (!zipEntry.dir && /\.(jpe?g|png|gif|webp)$/i.test(zipEntry.name)) {
-                    const promise = zipEntry.async('blob').then(blob => {
-                        const filename = zipEntry.name.split('/').pop() || zipEntry.name;
-                        return new File([blob], filename, { type: blob.type });
-                    });
-                    imageFilePromises.push(promise);
-                }
-            });
-    
-        return await Promise.all(imageFilePromises);
-        } catch (error) {
-            console.error("Error reading zip file:", error);
-            throw new Error(`Failed to read ${zipFile.name}. It may be corrupt or an unsupported format.`);
+            const restored = await restoreStoredSession(pendingSession);
+            setFiles(restored.files);
+            replaceOrganizedImages(restored.organizedImages);
+            setFilenamePrefix(pendingSession.filenamePrefix);
+            setFilenameTemplate(pendingSession.filenameTemplate);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to restore the previous session.");
+        } finally {
+            setPendingSession(null);
+            setIsRestoringSession(false);
+            setIsSessionReady(true);
+        }
+    };
+
+    const handleDiscardSession = async () => {
+        if (!pendingSession && !window.confirm('Discard the current session? All loaded images and their organization will be removed.')) return;
+        try {
+            await clearStoredSession();
+        } catch (err) {
+            console.error("Failed to clear saved session:", err);
+        }
+        if (!pendingSession) {
+            clearOrganizedImages();
+            setFiles([]);
+        }
+        setPendingSession(null);
+        setIsSessionReady(true);
+    };
+
+    // --- Background Jobs ---
+    const trackJob = <T,>(job: WorkerJob<T>): Promise<T> => {
+        activeJobsRef.current.add(job);
+        job.promise.then(
+            () => activeJobsRef.current.delete(job),
+            () => activeJobsRef.current.delete(job),
+        );
+        return job.promise;
+    };
+
+    const throwIfCancelled = () => {
+        if (cancelRequestedRef.current) throw new JobCancelledError();
+    };
+
+    const handleCancelJobs = () => {
+        cancelRequestedRef.current = true;
+        activeJobsRef.current.forEach(job => job.cancel());
+    };
+
+    const groupingOptions: GroupingOptions = { rules: activeRuleSet.rules, useFolderAsSku, mapping: mappingSheet };
+
+    // --- Project Files ---
+    const handleSaveProject = async () => {
+        if (isSavingProject || (files.length === 0 && organizedImages.size === 0)) return;
+        setIsSavingProject(true);
+        setError(null);
+        try {
+            const project = await buildProjectFile(files, organizedImages, { filenamePrefix, filenameTemplate, exportProfileId, imageProcessing });
+            downloadBlob(project, `riva-project-${new Date().toISOString().slice(0, 10)}.${PROJECT_EXTENSION}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save the project.");
+        } finally {
+            setIsSavingProject(false);
+        }
+    };
+
+    const openProject = async (projectFile: File) => {
+        setIsProcessingFiles(true);
+        setError(null);
+        try {
+            const project = await readProjectFile(projectFile);
+            setPendingSession(null);
+            setIsSessionReady(true);
+            setFiles(project.files);
+            replaceOrganizedImages(project.organizedImages);
+            setFilenamePrefix(project.settings.filenamePrefix);
+            setFilenameTemplate(project.settings.filenameTemplate);
+            setExportProfileId(getExportProfile(project.settings.exportProfileId).id);
+            setImageProcessing(project.settings.imageProcessing);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to open the project.");
+            console.error(err);
+        } finally {
+            setIsProcessingFiles(false);
         }
     };
 
+    const handleProjectFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const projectFile = event.target.files?.[0];
+        event.target.value = '';
+        if (projectFile) openProject(projectFile);
+    };
+
+    const getLoadedFiles = () => {
+        const loadedFiles = [...filesRef.current];
+        organizedImagesRef.current.forEach(imageGroup => imageGroup.forEach(image => loadedFiles.push(image.file)));
+        return [...new Set(loadedFiles)];
+    };
+
+    // Adds files to the current work: new files join `files` and, once images are organized,
+    // are sorted into their SKU groups. Files that are already loaded are reported instead.
+    const appendFiles = async (incomingFiles: File[]) => {
+        const { accepted, skipped } = await findDuplicateUploads(getLoadedFiles, incomingFiles);
+        setSkippedUploads(skipped);
+        if (accepted.length === 0) return;
+
+        setFiles(prev => [...prev, ...accepted]);
+        if (organizedImagesRef.current.size === 0) return;
+        updateOrganizedImages(`Add ${accepted.length} image${accepted.length !== 1 ? 's' : ''}`, prev =>
+            addImagesToGroups(prev, accepted.map(file => createOrganizedImage(file)), groupingOptions));
+    };
+
     const processAndSetFiles = async (incomingFiles: File[]) => {
+        const projectFile = incomingFiles.find(isProjectFile);
+        if (projectFile) {
+            await openProject(projectFile);
+            return;
+        }
+        const isAppending = appendMode && (files.length > 0 || organizedImages.size > 0);
         setIsProcessingFiles(true);
-        clearOrganizedImages();
-        setFiles([]);
+        // Starting fresh work declines the restore prompt; autosave then replaces the old session.
+        setPendingSession(null);
+        setIsSessionReady(true);
+        if (!isAppending) {
+            clearOrganizedImages();
+            setFiles([]);
+        }
+        setSkippedUploads([]);
         setError(null);
+        cancelRequestedRef.current = false;
     
         try {
             const imageFiles: File[] = [];
             const zipProcessingPromises: Promise<File[]>[] = [];
+            const processingErrors: string[] = [];
     
             for (const file of incomingFiles) {
                 const fileExtension = file.name.split('.').pop()?.toLowerCase();
                 const isZip = file.type.includes('zip') || fileExtension === 'zip';
     
                 if (isZip) {
-                    zipProcessingPromises.push(extractImagesFromZip(file));
+                    const archivePath = getSourcePath(file) || file.name;
+                    const job = extractZipInWorker(file, archivePath, nestedZipDepth, (percent, currentFile) => {
+                        setJobProgress({ label: `Extracting ${file.name}`, percent, currentFile });
+                    });
+                    zipProcessingPromises.push(trackJob(job).then(({ files: extracted, warnings }) => {
+                        processingErrors.push(...warnings);
+                        return extracted;
+                    }));
                 } else if (file.type.startsWith('image/')) {
                     imageFiles.push(file);
                 }
             }
     
             const zipResults = await Promise.allSettled(zipProcessingPromises);
+            setJobProgress(null);
+            if (cancelRequestedRef.current) return;
             
             const extractedFromZips: File[] = [];
-            const processingErrors: string[] = [];
     
             zipResults.forEach(result => {
                 if (result.status === 'fulfilled') {
@@ -121,7 +1636,11 @@ const App = () => {
                 }
             });
     
-            setFiles([...imageFiles, ...extractedFromZips]);
+            if (isAppending) {
+                await appendFiles([...imageFiles, ...extractedFromZips]);
+            } else {
+                setFiles([...imageFiles, ...extractedFromZips]);
+            }
     
             if (processingErrors.length > 0) {
                 setError(`Some files failed to process: ${processingErrors.join('; ')}`);
@@ -141,21 +1660,6 @@ const App = () => {
         }
     };
 
-    const getSkuFromFilename = (filename: string) => {
-        const skuRegex = /(\d{6}-\d{5}-\d{3})/;
-        const match = filename.match(skuRegex);
-        if (match && match[1]) return match[1];
-
-        let name = filename.split('.').slice(0, -1).join('.').trim();
-        name = name.replace(/\s*\([^)]*\)$/, '');
-        let previousName;
-        do {
-            previousName = name;
-            name = name.replace(/[-_]\d+$|[-_]$/, '');
-        } while (name !== previousName && name.length > 0);
-        return name || filename.split('.').slice(0, -1).join('.').trim();
-    };
-
 
     const organizeImages = () => {
         if (files.length === 0) {
@@ -164,19 +1668,12 @@ const App = () => {
         }
         setIsLoading(true);
         setError(null);
-        clearOrganizedImages();
         
         setTimeout(() => {
             try {
-                const newOrganizedImages = new Map<string, OrganizedImage[]>();
-                files.forEach((file) => {
-                    const sku = getSkuFromFilename(file.name);
-                    const groupName = sku || 'Unidentified';
-                    const existing = newOrganizedImages.get(groupName) || [];
-                    existing.push({ id: crypto.randomUUID(), file, url: URL.createObjectURL(file) });
-                    newOrganizedImages.set(groupName, existing);
-                });
-                setOrganizedImages(newOrganizedImages);
+                const newOrganizedImages = groupImages(files.map(file => createOrganizedImage(file)), groupingOptions);
+                updateOrganizedImages('Organize images', () => newOrganizedImages);
+                setMappingReport(mappingSheet ? getMappingReport(mappingSheet, files.map(file => file.name)) : null);
             } catch (err) {
                 setError(err instanceof Error ? err.message : "An unknown error occurred.");
             } finally {
@@ -185,136 +1682,575 @@ const App = () => {
         }, 50);
     };
 
+    // --- Perceptual Duplicates ---
+    const handleRemoveDuplicates = (clusters: DuplicateCluster<OrganizedImage>[]) => {
+        const removals = clusters.flatMap(cluster => {
+            const keepId = duplicateKeepIds[cluster.key] || cluster.bestId;
+            return cluster.members.filter(member => member.image.id !== keepId);
+        });
+        updateOrganizedImages(
+            `Remove ${removals.length} duplicate image${removals.length !== 1 ? 's' : ''}`,
+            prev => removals.reduce((groups, member) => removeImage(groups, member.sku, member.image.id), prev),
+        );
+        setDuplicateKeepIds({});
+        setShowDuplicateReview(false);
+    };
+
+    // --- Mapping Sheet ---
+    const handleMappingFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const sheet = await readMappingSheet(file);
+            if (sheet.rows.length === 0) {
+                throw new Error(`${file.name} has no usable rows${sheet.invalidRows.length > 0 ? ` (row ${sheet.invalidRows[0].row}: ${sheet.invalidRows[0].reason})` : ''}.`);
+            }
+            setMappingSheet(sheet);
+            setMappingReport(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : `Failed to read the mapping sheet ${file.name}.`);
+        }
+    };
+
+    const handleClearMappingSheet = () => {
+        setMappingSheet(null);
+        setMappingReport(null);
+    };
+
+    // --- SKU Catalog ---
+    const handleCatalogFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const loaded = await readCatalog(file);
+            if (loaded.entries.length === 0) throw new Error(`${file.name} contains no SKUs.`);
+            setCatalog(loaded);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : `Failed to read the catalog ${file.name}.`);
+        }
+    };
+
+    const handleExportCoverageReport = () => {
+        if (!catalog) return;
+        const csv = buildCoverageCsv(getCatalogCoverage(catalog, organizedImages, minImages), minImages);
+        downloadBlob(new Blob([csv], { type: 'text/csv' }), `coverage-${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
     const handleDuplicateImage = (sku: string, index: number) => {
-        setOrganizedImages(prev => {
-            // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const imageGroup = newMap.get(sku);
-            if (!imageGroup) return prev;
-
-            const originalImage = imageGroup[index];
-            if (!originalImage) return prev;
-
-            const duplicatedImage: OrganizedImage = {
-                ...originalImage,
-                id: crypto.randomUUID(),
-            };
+        updateOrganizedImages(`Duplicate image in ${sku}`, prev => duplicateImage(prev, sku, index));
+    };
+
+    const handleDeleteImage = (sku: string, imageId: string) => {
+        const imageName = organizedImages.get(sku)?.find(img => img.id === imageId)?.file.name ?? 'image';
+        updateOrganizedImages(`Delete ${imageName}`, prev => removeImage(prev, sku, imageId));
+    };
+    
+    // --- Multi-Select & Bulk Actions ---
+    // Display order, so shift-click ranges follow the current filter and sort.
+    const getImageOrder = () => visibleSkus.flatMap(sku => organizedImages.get(sku)!.map(image => image.id));
+
+    const toggleImageSelection = (imageId: string) => {
+        setSelectedImageIds(prev => {
+            const next = new Set(prev);
+            if (!next.delete(imageId)) next.add(imageId);
+            return next;
+        });
+        setSelectionAnchorId(imageId);
+    };
+
+    // Ctrl/Cmd-click toggles, shift-click selects the range from the anchor in display order (across
+    // groups), a plain click opens the lightbox as before.
+    const handleImageClick = (e: React.MouseEvent, imageDatas: OrganizedImage[], index: number) => {
+        const imageId = imageDatas[index].id;
+        if (e.shiftKey && selectionAnchorId) {
+            const order = getImageOrder();
+            const [from, to] = [order.indexOf(selectionAnchorId), order.indexOf(imageId)].sort((a, b) => a - b);
+            if (from !== -1) {
+                const range = order.slice(from, to + 1);
+                setSelectedImageIds(prev => new Set([...(e.ctrlKey || e.metaKey ? prev : []), ...range]));
+                return;
+            }
+        }
+        if (e.shiftKey || e.ctrlKey || e.metaKey) {
+            toggleImageSelection(imageId);
+            return;
+        }
+        openLightbox(imageDatas, index);
+    };
+
+    // Dragging over empty space in the results selects every image the rectangle touches. With
+    // shift/ctrl held the lasso adds to the current selection.
+    const handleLassoStart = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.button !== 0 || (e.target as HTMLElement).closest('.image-container, .group-header, button, input, select, textarea, a')) return;
+        e.preventDefault();
+        const start = { x: e.clientX, y: e.clientY };
+        const base = e.shiftKey || e.ctrlKey || e.metaKey ? new Set(selectedImageIds) : new Set<string>();
+        setSelectedImageIds(base);
 
-            const newImageGroup = [...imageGroup];
-            newImageGroup.splice(index + 1, 0, duplicatedImage);
-            newMap.set(sku, newImageGroup);
+        const handleMove = (event: MouseEvent) => {
+            const left = Math.min(start.x, event.clientX);
+            const top = Math.min(start.y, event.clientY);
+            const right = Math.max(start.x, event.clientX);
+            const bottom = Math.max(start.y, event.clientY);
+            setLassoRect({ left, top, width: right - left, height: bottom - top });
+            const hits = new Set(base);
+            document.querySelectorAll<HTMLElement>('.image-container[data-image-id]').forEach(element => {
+                const box = element.getBoundingClientRect();
+                if (box.left < right && box.right > left && box.top < bottom && box.bottom > top) hits.add(element.dataset.imageId!);
+            });
+            setSelectedImageIds(hits);
+        };
+        const handleUp = () => {
+            setLassoRect(null);
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+    };
+
+    const selectionLabel = (count: number) => `${count} image${count !== 1 ? 's' : ''}`;
+
+    const handleBulkMove = () => {
+        const targetSku = bulkSku.trim();
+        if (!targetSku || selectedImageIds.size === 0) return;
+        updateOrganizedImages(`Move ${selectionLabel(selectedImageIds.size)} to ${targetSku}`, prev => moveImagesToGroup(prev, selectedImageIds, targetSku));
+        announce(`Moved ${selectionLabel(selectedImageIds.size)} to ${targetSku}.`);
+        setBulkSku('');
+    };
+
+    // Moves the selection into a new group, named from the SKU field or after the first selected image's group.
+    const handleBulkSplit = () => {
+        if (selectedImageIds.size === 0) return;
+        const typedSku = bulkSku.trim();
+        if (typedSku && organizedImages.has(typedSku)) {
+            setError(`A group named "${typedSku}" already exists. Use Move to SKU to add the images to it.`);
+            return;
+        }
+        const firstSku = [...organizedImages.entries()].find(([, imageGroup]) => imageGroup.some(image => selectedImageIds.has(image.id)))?.[0];
+        if (!firstSku) return;
+        const newSku = typedSku || getUniqueGroupName(organizedImages, `${firstSku}-split`);
+        setError(null);
+        updateOrganizedImages(`Split ${selectionLabel(selectedImageIds.size)} into ${newSku}`, prev => moveImagesToGroup(prev, selectedImageIds, newSku));
+        setBulkSku('');
+    };
+
+    // An empty prefix resets the images to the global prefix.
+    const handleBulkPrefix = () => {
+        if (selectedImageIds.size === 0) return;
+        const prefix = bulkPrefix.trim() ? bulkPrefix : undefined;
+        updateOrganizedImages(`Set prefix on ${selectionLabel(selectedImageIds.size)}`, prev => updateImages(prev, selectedImageIds, { prefix }));
+    };
+
+    const handleBulkDuplicate = () => {
+        updateOrganizedImages(`Duplicate ${selectionLabel(selectedImageIds.size)}`, prev => duplicateImages(prev, selectedImageIds));
+    };
+
+    const handleBulkDelete = () => {
+        updateOrganizedImages(`Delete ${selectionLabel(selectedImageIds.size)}`, prev => removeImages(prev, selectedImageIds));
+        setSelectedImageIds(new Set());
+    };
+
+    // --- Keyboard Workflow ---
+    // Screen readers read the status region politely. A repeated message gets a trailing space so
+    // it is announced again.
+    const announce = (message: string) => setAnnouncement(prev => prev === message ? `${message}\u00a0` : message);
+
+    const focusThumbnail = (imageId: string | undefined) => {
+        if (imageId) getThumbnail(imageId)?.focus();
+    };
+
+    const handleMoveImageWithinGroup = (sku: string, index: number, direction: -1 | 1) => {
+        const imageGroup = organizedImages.get(sku)!;
+        const image = imageGroup[index];
+        const targetIndex = index + direction;
+        if (targetIndex < 0 || targetIndex >= imageGroup.length) {
+            announce(`${image.file.name} is already ${direction < 0 ? 'first' : 'last'} in ${sku}.`);
+            return;
+        }
+        updateOrganizedImages(`Reorder ${sku}`, prev => moveImage(prev, sku, index, sku, targetIndex));
+        pendingFocusId.current = image.id;
+        announce(`${image.file.name} moved to position ${targetIndex + 1} of ${imageGroup.length} in ${sku}.`);
+    };
+
+    // Appends the image to the previous or next group in display order.
+    const handleMoveImageToAdjacentGroup = (sku: string, index: number, direction: -1 | 1) => {
+        const image = organizedImages.get(sku)![index];
+        const targetSku = visibleSkus[visibleSkus.indexOf(sku) + direction];
+        if (!targetSku) {
+            announce(`${sku} is the ${direction < 0 ? 'first' : 'last'} group.`);
+            return;
+        }
+        const targetCount = organizedImages.get(targetSku)!.length + 1;
+        updateOrganizedImages(`Move image from ${sku} to ${targetSku}`, prev => moveImage(prev, sku, index, targetSku, targetCount - 1));
+        pendingFocusId.current = image.id;
+        announce(`${image.file.name} moved to ${targetSku}, position ${targetCount} of ${targetCount}.`);
+    };
+
+    // Deletes the selection when the focused image is part of it, otherwise just that image. Focus
+    // moves on to the next image that is left.
+    const handleDeleteFocusedImage = (sku: string, index: number) => {
+        const image = organizedImages.get(sku)![index];
+        const imageIds = selectedImageIds.has(image.id) ? selectedImageIds : new Set([image.id]);
+        const label = imageIds.size === 1 ? image.file.name : selectionLabel(imageIds.size);
+        const order = getImageOrder();
+        const position = order.indexOf(image.id);
+        pendingFocusId.current = order.slice(position + 1).find(id => !imageIds.has(id))
+            ?? order.slice(0, position).reverse().find(id => !imageIds.has(id))
+            ?? null;
+        updateOrganizedImages(`Delete ${label}`, prev => removeImages(prev, imageIds));
+        if (imageIds === selectedImageIds) setSelectedImageIds(new Set());
+        announce(`Deleted ${label}. Press Ctrl+Z to undo.`);
+    };
+
+    // Left/right follow display order across groups, up/down go by rows on screen. Keys pressed in
+    // the checkbox or prefix field inside the thumbnail are left to them.
+    const handleImageKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, sku: string, index: number) => {
+        if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey) return;
+        const imageGroup = organizedImages.get(sku)!;
+        const image = imageGroup[index];
+        if (e.altKey) {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') handleMoveImageWithinGroup(sku, index, e.key === 'ArrowLeft' ? -1 : 1);
+            else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') handleMoveImageToAdjacentGroup(sku, index, e.key === 'ArrowUp' ? -1 : 1);
+            else return;
+            e.preventDefault();
+            return;
+        }
+        const order = getImageOrder();
+        const position = order.indexOf(image.id);
+        switch (e.key) {
+            case 'ArrowLeft':
+                focusThumbnail(order[position - 1]);
+                break;
+            case 'ArrowRight':
+                focusThumbnail(order[position + 1]);
+                break;
+            case 'ArrowUp':
+            case 'ArrowDown':
+                findThumbnailInDirection(e.currentTarget, e.key === 'ArrowUp' ? 'up' : 'down')?.focus();
+                break;
+            case 'Home':
+                focusThumbnail(imageGroup[0].id);
+                break;
+            case 'End':
+                focusThumbnail(imageGroup[imageGroup.length - 1].id);
+                break;
+            case ' ':
+                toggleImageSelection(image.id);
+                announce(`${image.file.name} ${selectedImageIds.has(image.id) ? 'deselected' : 'selected'}.`);
+                break;
+            case 'Enter':
+                openLightbox(imageGroup, index);
+                break;
+            case 'Delete':
+            case 'Backspace':
+                handleDeleteFocusedImage(sku, index);
+                break;
+            case 'm':
+            case 'M':
+                openCommandPalette();
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+    // Assigns the selection, or the focused image when nothing is selected.
+    const openCommandPalette = () => {
+        const imageIds = selectedImageIds.size > 0 ? selectedImageIds
+            : focusedImageId && getImageOrder().includes(focusedImageId) ? new Set([focusedImageId]) : null;
+        if (!imageIds) {
+            announce('Select or focus an image to assign it to a SKU.');
+            return;
+        }
+        setPaletteTargetIds(new Set(imageIds));
+        setPaletteQuery('');
+        setPaletteIndex(0);
+    };
+
+    const closeCommandPalette = () => {
+        setPaletteTargetIds(null);
+        pendingFocusId.current = focusedImageId;
+    };
+
+    // Existing groups, then catalog SKUs without images, matched on SKU or product name. A typed SKU
+    // that is in neither can be created.
+    const getPaletteOptions = (): PaletteOption[] => {
+        const query = paletteQuery.trim();
+        const matches = (...texts: string[]) => texts.some(text => text.toLowerCase().includes(query.toLowerCase()));
+        const options: PaletteOption[] = [];
+        organizedImages.forEach((images, sku) => {
+            if (matches(sku, catalog?.bySku.get(sku)?.name || '')) options.push({ sku, label: sku, detail: `${images.length} image${images.length !== 1 ? 's' : ''}` });
+        });
+        catalog?.entries.forEach(entry => {
+            if (!organizedImages.has(entry.sku) && matches(entry.sku, entry.name)) options.push({ sku: entry.sku, label: entry.sku, detail: entry.name || 'In catalog, no images' });
+        });
+        const shown = options.slice(0, PALETTE_OPTION_LIMIT);
+        if (query && !organizedImages.has(query) && !catalog?.bySku.has(query)) shown.push({ sku: query, label: `Create ${query}`, detail: 'New group' });
+        return shown;
+    };
+
+    const handleAssignToSku = (targetSku: string) => {
+        if (!paletteTargetIds) return;
+        const label = selectionLabel(paletteTargetIds.size);
+        updateOrganizedImages(`Move ${label} to ${targetSku}`, prev => moveImagesToGroup(prev, paletteTargetIds, targetSku));
+        announce(`Moved ${label} to ${targetSku}.`);
+        closeCommandPalette();
+    };
+
+    const handlePaletteKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, options: PaletteOption[]) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            if (options.length > 0) setPaletteIndex(prev => (Math.min(prev, options.length - 1) + step + options.length) % options.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            const option = options[Math.min(paletteIndex, options.length - 1)];
+            if (option) handleAssignToSku(option.sku);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            closeCommandPalette();
+        }
+    };
+
+    const handleDeleteGroup = (sku: string) => {
+        if (window.confirm(`Are you sure you want to delete the entire "${sku}" group?`)) {
+            updateOrganizedImages(`Delete group ${sku}`, prev => removeGroup(prev, sku));
+        }
+    };
+
+    const getExportGroups = (groups: Map<string, OrganizedImage[]>): ExportGroup<OrganizedImage>[] =>
+        buildExportGroups(groups, { profile: exportProfile, template: filenameTemplate, prefix: filenamePrefix, processing: imageProcessing });
+
+    // With blocking on, refuses (and says why) while any of the images fail a quality check.
+    const checkQualityBlock = (images: OrganizedImage[]): boolean => {
+        if (!qualityRules.blockExport || !isQualityCheckEnabled(qualityRules)) return true;
+        if (isAnalyzing) {
+            setError("Images are still being checked. Try again in a moment.");
+            return false;
+        }
+        const failing = images.filter(image => qualityIssues.has(image.id)).length;
+        if (failing === 0) return true;
+        setError(`${failing} image${failing !== 1 ? 's fail' : ' fails'} the quality checks. Fix or remove ${failing !== 1 ? 'them' : 'it'}, or turn off blocking in Quality Checks.`);
+        return false;
+    };
 
-            return newMap;
-        });
+    const confirmProfileViolations = (groups: Map<string, OrganizedImage[]>): boolean => {
+        const groupsWithViolations = [...groups.entries()].filter(([, imageGroup]) => getProfileViolations(exportProfile, imageGroup, imageProcessing).length > 0);
+        if (groupsWithViolations.length === 0) return true;
+        const names = groupsWithViolations.slice(0, 10).map(([sku]) => sku).join(', ');
+        const more = groupsWithViolations.length > 10 ? ` and ${groupsWithViolations.length - 10} more` : '';
+        return window.confirm(`${groupsWithViolations.length} group${groupsWithViolations.length !== 1 ? 's' : ''} break the ${exportProfile.name} rules (${names}${more}). Export anyway?`);
     };
 
-    const handleDeleteImage = (sku: string, imageId: string) => {
-        setOrganizedImages(prev => {
-            // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const imageGroup = newMap.get(sku);
-            if (!imageGroup) return prev;
-
-            const imageToDelete = imageGroup.find(img => img.id === imageId);
-            if (imageToDelete) {
-                URL.revokeObjectURL(imageToDelete.url);
+    // Runs every image through the export processing stage, yielding entries in export order.
+    // With `manifestRows` each exported file is also hashed and measured for the manifest.
+    async function* processExportGroups(groups: ExportGroup<OrganizedImage>[], label: string, manifestRows: ManifestRow[] | null = null): AsyncGenerator<PreparedEntry> {
+        const totalImages = groups.reduce((total, group) => total + group.images.length, 0);
+        let processedImages = 0;
+        for (const group of groups) {
+            const report: ExportSizeReport = { originalBytes: 0, exportedBytes: 0 };
+            for (const [index, image] of group.images.entries()) {
+                throwIfCancelled();
+                setJobProgress({ label, percent: Math.round((processedImages++ / totalImages) * 100), currentFile: image.file.name });
+                const data = await processImageForExport(image.file, imageProcessing);
+                report.originalBytes += image.file.size;
+                report.exportedBytes += data.size;
+                const entry: PreparedEntry = { sku: group.sku, path: getExportPath(group, index), data };
+                if (manifestRows) manifestRows.push(await buildManifestRow(entry, image, index + 1));
+                yield entry;
             }
+            setExportSizes(prev => ({ ...prev, [group.sku]: report }));
+        }
+        throwIfCancelled();
+    }
 
-            const newImageGroup = imageGroup.filter(img => img.id !== imageId);
+    // Processes the images for export and builds the ZIP in a worker, reporting progress as it goes.
+    // With a part limit the archive is split into "<name>-partN.zip" files plus a CSV index of SKUs per part.
+    // Each part is zipped as soon as it is full, so only its processed images are held in memory.
+    const writeZipDownload = async (groups: ExportGroup<OrganizedImage>[], zipName: string, maxPartSize = 0) => {
+        cancelRequestedRef.current = false;
+        const estimatedBytes = groups.reduce((total, group) => total + group.images.reduce((sum, image) => sum + image.file.size, 0), 0);
+        // Streaming needs the save dialog while the click still counts as a user gesture, so it is only
+        // offered for single-archive exports.
+        const stream = maxPartSize > 0 ? null : await openStreamingDownload(zipName, estimatedBytes);
+        const writer = stream ? stream.getWriter() : null;
+        try {
+            const manifestRows: ManifestRow[] | null = includeManifest ? [] : null;
+            const packer = createZipPartPacker(maxPartSize);
+            const zippedParts: ZipPartSummary[] = [];
+            const partNames: string[] = [];
+            // A part that closes before the last image is processed means the export is split.
+            const zipPart = async (part: ZipPart, isSplit: boolean) => {
+                throwIfCancelled();
+                const partNumber = zippedParts.length + 1;
+                const label = isSplit ? `Zipping part ${partNumber}` : 'Zipping';
+                setJobProgress({ label, percent: 0, currentFile: null });
+                // Each part carries a manifest of just the files inside it.
+                const partPaths = new Set(part.entries.map(entry => entry.path));
+                const zipEntries = manifestRows ? [...part.entries, ...buildManifestEntries(manifestRows.filter(row => partPaths.has(row.path)))] : part.entries;
+                const content = await trackJob(zipInWorker(zipEntries, (percent, currentFile) => setJobProgress({ label, percent, currentFile }), writer));
+                const partName = isSplit ? getPartName(zipName, partNumber) : zipName;
+                if (content) downloadBlob(content, partName);
+                zippedParts.push(summarizeZipPart(part));
+                partNames.push(partName);
+            };
 
-            if (newImageGroup.length > 0) {
-                newMap.set(sku, newImageGroup);
-            } else {
-                newMap.delete(sku);
+            for await (const entry of processExportGroups(groups, 'Processing images', manifestRows)) {
+                for (const part of packer.add(entry)) await zipPart(part, true);
             }
-            return newMap;
-        });
-    };
-    
-    const handleDeleteGroup = (sku: string) => {
-        if (window.confirm(`Are you sure you want to delete the entire "${sku}" group?`)) {
-            setOrganizedImages(prev => {
-                // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-                const newMap = new Map<string, OrganizedImage[]>(prev);
-                const groupToDelete = newMap.get(sku);
-                
-                if (groupToDelete) {
-                    groupToDelete.forEach(img => URL.revokeObjectURL(img.url));
-                }
-
-                newMap.delete(sku);
-                return newMap;
-            });
+            const lastParts = packer.finish();
+            const isSplit = zippedParts.length + lastParts.length > 1;
+            for (const part of lastParts) await zipPart(part, isSplit);
+            if (writer) await writer.close();
+            if (zippedParts.length > 1) {
+                downloadBlob(new Blob([buildPartIndex(zippedParts, partNames)], { type: 'text/csv' }), getPartIndexName(zipName));
+            }
+        } catch (err) {
+            if (writer) await writer.abort().catch(() => {});
+            throw err;
+        } finally {
+            setJobProgress(null);
         }
     };
 
     const handleDownloadAll = async () => {
-        if (organizedImages.size === 0 || isAnyZipping) return;
+        if (exportableGroups.size === 0 || isAnyZipping) return;
+        if (!checkQualityBlock([...exportableGroups.values()].flat()) || !confirmProfileViolations(exportableGroups)) return;
         setIsZippingAll(true);
         setError(null);
         try {
-            const zip = new JSZip();
-            organizedImages.forEach((imageGroup, sku) => {
-                const folder = zip.folder(sku);
-                if (folder) {
-                    imageGroup.forEach((image, index) => {
-                        const { file } = image;
-                        const effectivePrefix = (image.prefix === undefined ? filenamePrefix : image.prefix).trim();
-                        const newFilename = effectivePrefix ? `${index + 1}-${effectivePrefix}-${file.name}` : `${index + 1}-${file.name}`;
-                        folder.file(newFilename, file);
-                    });
-                }
-            });
-            const content = await zip.generateAsync({ type: 'blob' });
-            const link = document.createElement('a');
-            link.href = URL.createObjectURL(content);
-            link.download = 'organized_images.zip';
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(link.href);
+            await writeZipDownload(getExportGroups(exportableGroups), 'organized_images.zip', maxPartBytes);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "Failed to create zip file.");
+            if (!(err instanceof JobCancelledError)) {
+                setError(err instanceof Error ? err.message : "Failed to create zip file.");
+            }
         } finally {
             setIsZippingAll(false);
         }
     };
     
+    // Writes the export straight into a local folder, using the same paths as the ZIP.
+    const handleSaveToFolder = async () => {
+        if (exportableGroups.size === 0 || isAnyZipping || !window.showDirectoryPicker) return;
+        if (!checkQualityBlock([...exportableGroups.values()].flat()) || !confirmProfileViolations(exportableGroups)) return;
+        let groups: ExportGroup<OrganizedImage>[];
+        try {
+            groups = getExportGroups(exportableGroups);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to name the exported files.");
+            return;
+        }
+        let root: DirectoryPickerHandle;
+        try {
+            root = await window.showDirectoryPicker({ mode: 'readwrite' });
+        } catch {
+            return; // The user closed the picker.
+        }
+
+        setIsSavingToFolder(true);
+        setError(null);
+        setFolderWriteResults(null);
+        cancelRequestedRef.current = false;
+        const results: FolderWriteResult[] = [];
+        const manifestRows: ManifestRow[] | null = includeManifest ? [] : null;
+        try {
+            for await (const entry of processExportGroups(groups, `Saving to ${root.name}`, manifestRows)) {
+                results.push(await writeEntryToDirectory(root, entry, conflictMode));
+            }
+            if (manifestRows) {
+                for (const entry of buildManifestEntries(manifestRows)) {
+                    results.push(await writeEntryToDirectory(root, entry, conflictMode));
+                }
+            }
+        } catch (err) {
+            if (!(err instanceof JobCancelledError)) {
+                setError(err instanceof Error ? err.message : `Failed to save to ${root.name}.`);
+            }
+        } finally {
+            setJobProgress(null);
+            setIsSavingToFolder(false);
+            if (results.length > 0) setFolderWriteResults(results);
+        }
+    };
+
     const handleDownloadSingleFolder = async (sku: string, imageDatas: OrganizedImage[]) => {
-        if (isAnyZipping) return;
+        if (isAnyZipping || !checkQualityBlock(imageDatas)) return;
+        const violations = getProfileViolations(exportProfile, imageDatas, imageProcessing);
+        if (violations.length > 0 && !window.confirm(`${sku} breaks the ${exportProfile.name} rules:\n${violations.join('\n')}\nExport anyway?`)) return;
         setZippingFolder(sku);
         setError(null);
         try {
-            const zip = new JSZip();
-            imageDatas.forEach((image, index) => {
-                const { file } = image;
-                const effectivePrefix = (image.prefix === undefined ? filenamePrefix : image.prefix).trim();
-                const newFilename = effectivePrefix ? `${index + 1}-${effectivePrefix}-${file.name}` : `${index + 1}-${file.name}`;
-                zip.file(newFilename, file);
-            });
-            const content = await zip.generateAsync({ type: 'blob' });
-            const link = document.createElement('a');
-            link.href = URL.createObjectURL(content);
-            link.download = `${sku}.zip`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(link.href);
+            const filenames = buildGroupFilenames(effectiveTemplate, sku, imageDatas, filenamePrefix, exportProfile.roleStyle, imageProcessing);
+            await writeZipDownload([{ sku, folder: null, images: imageDatas, filenames }], `${sku}.zip`);
         } catch (err) {
-            setError(err instanceof Error ? err.message : `Failed to create zip file for ${sku}.`);
+            if (!(err instanceof JobCancelledError)) {
+                setError(err instanceof Error ? err.message : `Failed to create zip file for ${sku}.`);
+            }
         } finally {
             setZippingFolder(null);
         }
     };
 
-    const handleDropUpload = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    const handleDropUpload = (event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
         event.stopPropagation();
         event.currentTarget.classList.remove('drag-over');
-        if (event.dataTransfer.files && event.dataTransfer.files.length > 0) {
+        // Entries must be taken synchronously; the DataTransfer is emptied once the event returns.
+        const entries = Array.from(event.dataTransfer.items || [])
+            .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+            .filter((entry): entry is FileSystemEntry => entry !== null);
+        if (entries.some(entry => entry.isDirectory)) {
+            importFromEntries(entries);
+        } else if (event.dataTransfer.files && event.dataTransfer.files.length > 0) {
             processAndSetFiles(Array.from(event.dataTransfer.files));
         }
-    }, []);
+    };
+
+    const importFromEntries = async (entries: FileSystemEntry[]) => {
+        setIsProcessingFiles(true);
+        try {
+            const collected = (await Promise.all(entries.map(collectFilesFromEntry))).flat();
+            await processAndSetFiles(collected);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to read the dropped folder.");
+            setIsProcessingFiles(false);
+        }
+    };
+
+    const handleChooseFolder = async (event: React.MouseEvent) => {
+        event.stopPropagation();
+        if (!window.showDirectoryPicker) {
+            document.getElementById('folder-input')?.click();
+            return;
+        }
+        let directory: DirectoryPickerHandle;
+        try {
+            directory = await window.showDirectoryPicker({ mode: 'read' });
+        } catch {
+            return; // The user closed the picker.
+        }
+        setIsProcessingFiles(true);
+        try {
+            await processAndSetFiles(await collectFilesFromDirectoryHandle(directory, directory.name));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : `Failed to read the folder ${directory.name}.`);
+            setIsProcessingFiles(false);
+        }
+    };
+
+    // Fallback for browsers without showDirectoryPicker: <input webkitdirectory> exposes webkitRelativePath.
+    const handleFolderInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(event.target.files || []).filter(file => isImportableFile(file.name));
+        event.target.value = '';
+        selected.forEach(file => setSourcePath(file, file.webkitRelativePath || undefined));
+        if (selected.length > 0) processAndSetFiles(selected);
+    };
 
     const handleDragOverUpload = (event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
@@ -340,144 +2276,219 @@ const App = () => {
             return;
         }
 
-        setOrganizedImages(prev => {
-            // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const images = newMap.get(oldSku) || [];
-            newMap.delete(oldSku);
-
-            if (newMap.has(newSku)) { // Merge with existing group
-                const existingImages = newMap.get(newSku) || [];
-                newMap.set(newSku, [...existingImages, ...images]);
-            } else { // Rename group
-                newMap.set(newSku, images);
-            }
-            return newMap;
-        });
+        updateOrganizedImages(organizedImages.has(newSku) ? `Merge ${oldSku} into ${newSku}` : `Rename ${oldSku} to ${newSku}`, prev => renameGroup(prev, oldSku, newSku));
         setEditingSku(null);
     };
 
     // --- Per-Image Prefix Editing ---
     const handleImagePrefixChange = (sku: string, imageId: string, newPrefix: string) => {
-        setOrganizedImages(prev => {
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const imageGroup = newMap.get(sku);
-            if (!imageGroup) return prev;
-    
-            const newImageGroup = imageGroup.map(img => {
-                if (img.id === imageId) {
-                    return { ...img, prefix: newPrefix };
+        updateOrganizedImages(`Edit prefix in ${sku}`, prev => updateImage(prev, sku, imageId, { prefix: newPrefix }), `prefix:${imageId}`);
+    };
+
+    // --- Image & Group Drag & Drop ---
+    // A mouse picks the item up once it moves a few pixels, touch and pen after a long press. The
+    // listeners live for one gesture, like the lasso's.
+    const handlePointerDragStart = (e: React.PointerEvent<HTMLElement>, item: DragItem) => {
+        if (!e.isPrimary || e.button !== 0 || pointerDrag || (e.target as HTMLElement).closest('button, input, select, textarea, a')) return;
+        const source = e.currentTarget;
+        const pointerId = e.pointerId;
+        const isMouse = e.pointerType === 'mouse';
+        const canReorderGroups = groupFilter.sort === 'original';
+        const origin = { x: e.clientX, y: e.clientY };
+        let point = origin;
+        let isActive = false;
+        let imageTarget: ImageDropTarget | null = null;
+        let groupTarget: GroupDropTarget | null = null;
+        let scrollFrame = 0;
+
+        const updateTarget = () => {
+            if (item.kind === 'image') {
+                imageTarget = findImageDropTarget(point.x, point.y, imageTarget);
+                setImageDropTarget(imageTarget);
+            } else {
+                groupTarget = findGroupDropTarget(point.x, point.y, item.sku, canReorderGroups);
+                setGroupDropTarget(groupTarget);
+            }
+        };
+        const autoScroll = () => {
+            const step = getAutoScrollStep(point.y);
+            if (step !== 0) {
+                window.scrollBy(0, step);
+                updateTarget();
+            }
+            scrollFrame = requestAnimationFrame(autoScroll);
+        };
+        const activate = () => {
+            isActive = true;
+            const box = source.getBoundingClientRect();
+            document.getSelection()?.removeAllRanges();
+            setPointerDrag({ item, x: point.x, y: point.y, offsetX: origin.x - box.left, offsetY: origin.y - box.top, width: box.width, height: box.height });
+            // Dropping the image where it was picked up is a no-op until the pointer moves.
+            if (item.kind === 'image') {
+                imageTarget = { sku: item.sku, slot: item.index };
+                setImageDropTarget(imageTarget);
+            }
+            scrollFrame = requestAnimationFrame(autoScroll);
+        };
+        const pressTimer = isMouse ? 0 : window.setTimeout(activate, LONG_PRESS_MS);
+
+        const handleMove = (event: PointerEvent) => {
+            if (event.pointerId !== pointerId) return;
+            point = { x: event.clientX, y: event.clientY };
+            if (!isActive) {
+                if (Math.hypot(point.x - origin.x, point.y - origin.y) < DRAG_THRESHOLD_PX) return;
+                // Moving before the long press is a scroll, not a drag.
+                if (!isMouse) {
+                    finish();
+                    return;
                 }
-                return img;
-            });
-    
-            newMap.set(sku, newImageGroup);
-            return newMap;
-        });
+                activate();
+            }
+            setPointerDrag(prev => prev && { ...prev, x: point.x, y: point.y });
+            updateTarget();
+        };
+        const handleUp = (event: PointerEvent) => {
+            if (event.pointerId !== pointerId) return;
+            if (isActive) {
+                if (event.type === 'pointerup') handlePointerDrop(item, imageTarget, groupTarget);
+                // The release would otherwise click whatever is under the pointer, e.g. open the lightbox.
+                const suppressClick = (click: MouseEvent) => {
+                    click.stopPropagation();
+                    click.preventDefault();
+                };
+                window.addEventListener('click', suppressClick, { capture: true, once: true });
+                setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
+            }
+            finish();
+        };
+        const handleKey = (event: KeyboardEvent) => {
+            if (event.key !== 'Escape' || !isActive) return;
+            event.stopPropagation();
+            finish();
+        };
+        // While an item is held, touch moves drag it instead of scrolling, and a long press doesn't
+        // bring up the context menu or select text.
+        const preventWhileActive = (event: Event) => {
+            if (isActive) event.preventDefault();
+        };
+        const preventContextMenu = (event: Event) => event.preventDefault();
+
+        const finish = () => {
+            clearTimeout(pressTimer);
+            cancelAnimationFrame(scrollFrame);
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+            window.removeEventListener('pointercancel', handleUp);
+            window.removeEventListener('keydown', handleKey, { capture: true });
+            window.removeEventListener('touchmove', preventWhileActive);
+            window.removeEventListener('selectstart', preventWhileActive);
+            window.removeEventListener('contextmenu', preventContextMenu);
+            setPointerDrag(null);
+            setImageDropTarget(null);
+            setGroupDropTarget(null);
+        };
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+        window.addEventListener('pointercancel', handleUp);
+        window.addEventListener('keydown', handleKey, { capture: true });
+        window.addEventListener('touchmove', preventWhileActive, { passive: false });
+        window.addEventListener('selectstart', preventWhileActive);
+        if (!isMouse) window.addEventListener('contextmenu', preventContextMenu);
     };
 
-    // --- Image Drag & Drop ---
-    const handleDragStart = (e: React.DragEvent<HTMLDivElement>, group: string, index: number) => {
-        e.stopPropagation(); // Prevent group drag from firing
-        e.dataTransfer.setData('text/plain', ''); 
-        e.dataTransfer.effectAllowed = 'move';
-        setDraggedItem({ group, index });
+    // Same edits as before the switch to pointer events: moveImage for images, a merge confirmation
+    // or moveGroup for groups.
+    const handlePointerDrop = (item: DragItem, imageTarget: ImageDropTarget | null, groupTarget: GroupDropTarget | null) => {
+        if (item.kind === 'image' && imageTarget) {
+            const { sku: sourceGroup, index: sourceIndex } = item;
+            const { sku: targetGroup, slot } = imageTarget;
+            // Slots count the dragged image itself; moveImage takes the index once it is removed.
+            const targetIndex = sourceGroup === targetGroup && slot > sourceIndex ? slot - 1 : slot;
+            if (sourceGroup === targetGroup && sourceIndex === targetIndex) return;
+            const image = organizedImages.get(sourceGroup)?.[sourceIndex];
+            updateOrganizedImages(sourceGroup === targetGroup ? `Reorder ${sourceGroup}` : `Move image from ${sourceGroup} to ${targetGroup}`, prev =>
+                moveImage(prev, sourceGroup, sourceIndex, targetGroup, targetIndex));
+            if (image) announce(`${image.file.name} moved to ${targetGroup}, position ${targetIndex + 1}.`);
+        } else if (item.kind === 'group' && groupTarget) {
+            const { sku: targetSku, placement } = groupTarget;
+            if (placement === 'merge') {
+                setPendingMerge({ sourceSku: item.sku, targetSku });
+            } else {
+                updateOrganizedImages(`Move group ${item.sku} ${placement} ${targetSku}`, prev => moveGroup(prev, item.sku, targetSku, placement));
+                announce(`Group ${item.sku} moved ${placement} ${targetSku}.`);
+            }
+        }
     };
 
-    const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault(); 
+    const handleConfirmMerge = () => {
+        if (!pendingMerge) return;
+        const { sourceSku, targetSku } = pendingMerge;
+        updateOrganizedImages(`Merge ${sourceSku} into ${targetSku}`, prev => mergeGroups(prev, sourceSku, targetSku));
+        announce(`Merged ${sourceSku} into ${targetSku}.`);
+        setPendingMerge(null);
     };
 
-    const handleDragEnterReorder = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        if (e.currentTarget.classList.contains('dragging')) return;
-        e.currentTarget.classList.add('drag-over-item');
+    // Makes the current sort the real group order, which exports follow.
+    const handleKeepSortOrder = () => {
+        const sorted = filterGroups(organizedImages, { ...DEFAULT_GROUP_FILTER, sort: groupFilter.sort }, groupFilterContext);
+        updateOrganizedImages(`Order groups by ${GROUP_SORT_LABELS[groupFilter.sort]}`, prev => reorderGroups(prev, sorted));
+        setGroupFilterField('sort', 'original');
     };
-    
-    const handleDragLeaveReorder = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        e.currentTarget.classList.remove('drag-over-item');
+
+    // --- SKU Rule Editing ---
+    const updateActiveRules = (updater: (rules: SkuRule[]) => SkuRule[]) => {
+        setSkuRuleSets(prev => prev.map(set => set.id === activeRuleSet.id ? { ...set, rules: updater(set.rules) } : set));
     };
 
-    const handleDropReorder = (e: React.DragEvent<HTMLDivElement>, targetGroup: string, targetIndex: number) => {
-        e.preventDefault();
-        e.stopPropagation();
-        e.currentTarget.classList.remove('drag-over-item');
-        if (!draggedItem) return;
+    const handleRuleChange = (ruleId: string, changes: Partial<SkuRule>) => {
+        updateActiveRules(rules => rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule));
+    };
 
-        const { group: sourceGroup, index: sourceIndex } = draggedItem;
+    const handleAddRule = () => {
+        updateActiveRules(rules => [...rules, createSkuRule()]);
+    };
 
-        setOrganizedImages(prev => {
-            // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const sourceImageGroup = [...(newMap.get(sourceGroup) || [])];
-            const [removed] = sourceImageGroup.splice(sourceIndex, 1);
-            
-            if (sourceGroup === targetGroup) {
-                sourceImageGroup.splice(targetIndex, 0, removed);
-                newMap.set(sourceGroup, sourceImageGroup);
-            } else {
-                const targetImageGroup = [...(newMap.get(targetGroup) || [])];
-                targetImageGroup.splice(targetIndex, 0, removed);
-                newMap.set(targetGroup, targetImageGroup);
-                if (sourceImageGroup.length === 0) {
-                    newMap.delete(sourceGroup);
-                } else {
-                    newMap.set(sourceGroup, sourceImageGroup);
-                }
-            }
-            return newMap;
-        });
+    const handleDeleteRule = (ruleId: string) => {
+        updateActiveRules(rules => rules.filter(rule => rule.id !== ruleId));
     };
 
-    const handleDragEnd = () => {
-        document.querySelectorAll('.drag-over-item').forEach(el => el.classList.remove('drag-over-item'));
-        setDraggedItem(null);
+    const handleMoveRule = (index: number, direction: -1 | 1) => {
+        updateActiveRules(rules => {
+            const target = index + direction;
+            if (target < 0 || target >= rules.length) return rules;
+            const newRules = [...rules];
+            [newRules[index], newRules[target]] = [newRules[target], newRules[index]];
+            return newRules;
+        });
     };
 
-    // --- Group Merging Drag & Drop ---
-    const handleGroupDragStart = (e: React.DragEvent<HTMLDivElement>, sku: string) => {
-        e.dataTransfer.setData('application/json', sku);
-        e.dataTransfer.effectAllowed = 'move';
-        setDraggedGroupSku(sku);
+    const handleAddRuleSet = () => {
+        const name = window.prompt('Name for the new rule set:', `Supplier ${skuRuleSets.length + 1}`);
+        if (!name?.trim()) return;
+        const newSet: SkuRuleSet = { ...createDefaultRuleSet(), name: name.trim() };
+        setSkuRuleSets(prev => [...prev, newSet]);
+        setActiveRuleSetId(newSet.id);
     };
 
-    const handleGroupDrop = (e: React.DragEvent<HTMLDivElement>, targetSku: string) => {
-        e.preventDefault();
-        e.stopPropagation();
-        document.querySelectorAll('.merge-target').forEach(el => el.classList.remove('merge-target'));
-        if (!draggedGroupSku || draggedGroupSku === targetSku) return;
-
-        setOrganizedImages(prev => {
-            // FIX: Explicitly type `new Map()` to ensure correct type inference for map values.
-            const newMap = new Map<string, OrganizedImage[]>(prev);
-            const sourceImages = newMap.get(draggedGroupSku) || [];
-            const targetImages = newMap.get(targetSku) || [];
-            newMap.set(targetSku, [...targetImages, ...sourceImages]);
-            newMap.delete(draggedGroupSku);
-            return newMap;
-        });
-        setDraggedGroupSku(null);
+    const handleRenameRuleSet = () => {
+        const name = window.prompt('Rename rule set:', activeRuleSet.name);
+        if (!name?.trim()) return;
+        setSkuRuleSets(prev => prev.map(set => set.id === activeRuleSet.id ? { ...set, name: name.trim() } : set));
     };
 
-    const handleGroupDragEnter = (e: React.DragEvent<HTMLDivElement>, targetSku: string) => {
-        e.preventDefault();
-        e.stopPropagation();
-        if (draggedGroupSku && draggedGroupSku !== targetSku) {
-            e.currentTarget.classList.add('merge-target');
-        } else if (draggedItem && draggedItem.group !== targetSku) {
-            e.currentTarget.classList.add('image-drop-target');
+    const handleDeleteRuleSet = () => {
+        if (skuRuleSets.length <= 1) return;
+        if (window.confirm(`Are you sure you want to delete the "${activeRuleSet.name}" rule set?`)) {
+            const remaining = skuRuleSets.filter(set => set.id !== activeRuleSet.id);
+            setSkuRuleSets(remaining);
+            setActiveRuleSetId(remaining[0].id);
         }
     };
-    
-    const handleGroupDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        e.stopPropagation();
-        e.currentTarget.classList.remove('merge-target', 'image-drop-target');
-    };
-    
-    const handleGroupDragEnd = () => {
-        setDraggedGroupSku(null);
+
+    // The exported file can be passed to `riva organize --rules` for batch jobs.
+    const handleExportRuleSet = () => {
+        const json = JSON.stringify(activeRuleSet, null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${activeRuleSet.name.replace(/[<>:"/\\|?*]/g, '_')}.rules.json`);
     };
 
     // Lightbox handlers
@@ -486,10 +2497,28 @@ const App = () => {
         setLightboxIndex(index);
         setLightboxOpen(true);
     };
-    const closeLightbox = () => setLightboxOpen(false);
+    // Focus goes back to the thumbnail the lightbox was opened from.
+    const closeLightbox = () => {
+        setLightboxOpen(false);
+        pendingFocusId.current = focusedImageId;
+    };
     const showNextImage = () => setLightboxIndex(prev => (prev + 1) % lightboxImages.length);
     const showPrevImage = () => setLightboxIndex(prev => (prev - 1 + lightboxImages.length) % lightboxImages.length);
 
+    const visibleDuplicateClusters = duplicateClusters.filter(cluster => !dismissedDuplicates.has(cluster.key));
+    const duplicateClusterOf = new Map<string, DuplicateCluster<OrganizedImage>>();
+    visibleDuplicateClusters.forEach(cluster => cluster.members.forEach(member => duplicateClusterOf.set(member.image.id, cluster)));
+
+    const draggedSku = pointerDrag?.item.sku;
+    const draggedImageId = pointerDrag?.item.kind === 'image' ? pointerDrag.item.imageId : undefined;
+    // The dragged image stays in place, dimmed, so the slots on either side of it need no placeholder.
+    const placeholderTarget = imageDropTarget && !(pointerDrag?.item.kind === 'image' && pointerDrag.item.sku === imageDropTarget.sku
+        && (imageDropTarget.slot === pointerDrag.item.index || imageDropTarget.slot === pointerDrag.item.index + 1)) ? imageDropTarget : null;
+
+    // Roving tabindex: only one thumbnail is in the tab order, the arrow keys do the rest.
+    const visibleImageIds = getImageOrder();
+    const tabbableImageId = focusedImageId && visibleImageIds.includes(focusedImageId) ? focusedImageId : visibleImageIds[0];
+
     return (
         <div className="container">
             <header>
@@ -501,13 +2530,94 @@ const App = () => {
             </header>
 
             <main>
+                {pendingSession && (
+                    <div className="session-banner" role="dialog" aria-label="Restore previous session">
+                        <span>
+                            A previous session from {new Date(pendingSession.savedAt).toLocaleString()} was found
+                            ({pendingSession.groups.reduce((total, [, images]) => total + images.length, 0)} images in {pendingSession.groups.length} group{pendingSession.groups.length !== 1 ? 's' : ''}).
+                        </span>
+                        <button className="primary" onClick={handleRestoreSession} disabled={isRestoringSession}>{isRestoringSession ? 'Restoring...' : 'Restore Previous Session'}</button>
+                        <button onClick={handleDiscardSession} disabled={isRestoringSession}>Discard</button>
+                    </div>
+                )}
                 <div className="upload-container">
                     <div className="drop-zone" onDrop={handleDropUpload} onDragOver={handleDragOverUpload} onDragEnter={handleDragEnterUpload} onDragLeave={handleDragLeaveUpload} onClick={() => document.getElementById('file-input')?.click()}>
-                        <input type="file" id="file-input" multiple accept="image/*,.zip" onChange={handleFileChange} style={{ display: 'none' }} aria-label="File Uploader" />
+                        <input type="file" id="file-input" multiple accept={`image/*,.zip,.${PROJECT_EXTENSION}`} onChange={handleFileChange} style={{ display: 'none' }} aria-label="File Uploader" />
                          <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg>
                         <span>Drag and drop images & .zip files here or <a>click to browse</a></span>
-                         <p className="upload-hint">You can select and process multiple files at the same time.</p>
+                         <p className="upload-hint">You can select and process multiple files, or drop whole folders, at the same time.</p>
+                        <button className="choose-folder-btn" onClick={handleChooseFolder}>Choose Folder</button>
+                        <input
+                            type="file"
+                            id="folder-input"
+                            multiple
+                            {...{ webkitdirectory: '' }}
+                            onChange={handleFolderInputChange}
+                            onClick={(e) => e.stopPropagation()}
+                            style={{ display: 'none' }}
+                            aria-label="Folder Uploader"
+                        />
+                    </div>
+                    <div className="upload-options">
+                        <label className="append-mode-control">
+                            <input type="checkbox" checked={appendMode} onChange={(e) => setAppendMode(e.target.checked)} />
+                            Add to current organization instead of starting over
+                        </label>
+                        <label className="append-mode-control" title="Files inside a folder (or a nested .zip) are grouped under that folder's name instead of the SKU rules. Files directly in the folder or .zip you add use the rules.">
+                            <input type="checkbox" checked={useFolderAsSku} onChange={(e) => setUseFolderAsSku(e.target.checked)} />
+                            Use folder names as SKUs
+                        </label>
+                        <label className="append-mode-control">
+                            Nested .zip depth
+                            <input type="number" className="depth-input" min="0" max="10" value={nestedZipDepth} onChange={(e) => setNestedZipDepth(Math.min(10, Math.max(0, Number(e.target.value) || 0)))} />
+                        </label>
+                        <div className="append-mode-control mapping-sheet-control">
+                            {mappingSheet ? (
+                                <>
+                                    <span>Mapping sheet: <strong>{mappingSheet.name}</strong> ({mappingSheet.rows.length} row{mappingSheet.rows.length !== 1 ? 's' : ''})</span>
+                                    <button onClick={handleClearMappingSheet} aria-label="Remove mapping sheet">&times;</button>
+                                </>
+                            ) : (
+                                <button onClick={() => document.getElementById('mapping-input')?.click()} title="A .csv or .xlsx sheet with filename and SKU columns, optionally position and role. It is applied before the SKU rules when you organize.">Load Mapping Sheet</button>
+                            )}
+                            <input type="file" id="mapping-input" accept=".csv,.tsv,.txt,.xlsx" onChange={handleMappingFileChange} style={{ display: 'none' }} aria-label="Mapping sheet" />
+                        </div>
                     </div>
+                    {skippedUploads.length > 0 && (
+                        <div className="skipped-uploads" role="status">
+                            <div className="skipped-uploads-header">
+                                <span>{skippedUploads.length} file{skippedUploads.length !== 1 ? 's were' : ' was'} already loaded and skipped:</span>
+                                <button onClick={() => setSkippedUploads([])} aria-label="Dismiss">&times;</button>
+                            </div>
+                            <ul>
+                                {skippedUploads.map((skipped, index) => <li key={`${skipped.name}-${index}`}><strong>{skipped.name}</strong> &mdash; {skipped.reason}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {mappingReport && mappingSheet && (mappingReport.unmatchedRows.length > 0 || mappingReport.unmatchedFiles.length > 0 || mappingSheet.invalidRows.length > 0) && (
+                        <div className="skipped-uploads mapping-report" role="status">
+                            <div className="skipped-uploads-header">
+                                <span>{mappingSheet.name} matched {mappingReport.matchedFiles} of {mappingReport.matchedFiles + mappingReport.unmatchedFiles.length} files.</span>
+                                <button onClick={() => setMappingReport(null)} aria-label="Dismiss">&times;</button>
+                            </div>
+                            <div className="mapping-report-columns">
+                                <div>
+                                    <h4>Sheet rows without a file ({mappingReport.unmatchedRows.length + mappingSheet.invalidRows.length})</h4>
+                                    <ul>
+                                        {mappingSheet.invalidRows.map(invalid => <li key={`invalid-${invalid.row}`}><strong>Row {invalid.row}</strong> &mdash; {invalid.reason}</li>)}
+                                        {mappingReport.unmatchedRows.map(row => <li key={`row-${row.row}`}><strong>Row {row.row}</strong> &mdash; {row.filename} &rarr; {row.sku}</li>)}
+                                    </ul>
+                                </div>
+                                <div>
+                                    <h4>Files not in the sheet ({mappingReport.unmatchedFiles.length})</h4>
+                                    <ul>
+                                        {mappingReport.unmatchedFiles.map((filename, index) => <li key={`${filename}-${index}`}>{filename}</li>)}
+                                    </ul>
+                                    {mappingReport.unmatchedFiles.length > 0 && <p className="mapping-report-hint">These were grouped by the SKU rules instead.</p>}
+                                </div>
+                            </div>
+                        </div>
+                    )}
                     <div className="drive-import-separator">OR</div>
                     <div className="drive-import-container">
                         <svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3"></path><line x1="12" y1="17" x2="12.01" y2="17"></line></svg>
@@ -516,8 +2626,50 @@ const App = () => {
                     </div>
                     <div className="controls-bar">
                         <button className="primary" onClick={organizeImages} disabled={isProcessingFiles || isLoading || files.length === 0}>{isProcessingFiles ? "Processing..." : isLoading ? "Organizing..." : "Organize Images"}</button>
-                        <button onClick={handleDownloadAll} disabled={isAnyZipping || organizedImages.size === 0}>{isZippingAll ? 'Zipping...' : 'Download All (.zip)'}</button>
+                        <button onClick={handleDownloadAll} disabled={isAnyZipping || exportableGroups.size === 0 || templateError !== null}>
+                            {isZippingAll ? 'Zipping...' : isFilterActive ? `Download ${exportableGroups.size} of ${organizedImages.size} Groups (.zip)` : 'Download All (.zip)'}
+                        </button>
+                        {window.showDirectoryPicker && (
+                            <div className="prefix-control">
+                                <button onClick={handleSaveToFolder} disabled={isAnyZipping || exportableGroups.size === 0 || templateError !== null}>
+                                    {isSavingToFolder ? 'Saving...' : isFilterActive ? `Save ${exportableGroups.size} Groups to Folder` : 'Save to Folder'}
+                                </button>
+                                <select value={conflictMode} onChange={(e) => setConflictMode(e.target.value as ConflictMode)} aria-label="When a file already exists">
+                                    {(Object.keys(CONFLICT_MODE_LABELS) as ConflictMode[]).map(mode => <option key={mode} value={mode}>{CONFLICT_MODE_LABELS[mode]}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <button onClick={() => setShowProcessingSettings(true)} title="Resize and convert images on export">
+                            {isProcessingEnabled(imageProcessing)
+                                ? `Image Processing: ${[
+                                    imageProcessing.maxEdge > 0 ? `${imageProcessing.maxEdge}px` : '',
+                                    imageProcessing.format !== 'original' ? `${imageProcessing.format.toUpperCase()} ${imageProcessing.quality}%` : '',
+                                    imageProcessing.stripMetadata ? 'no metadata' : '',
+                                ].filter(Boolean).join(' · ')}`
+                                : 'Image Processing: Off'}
+                        </button>
+                        <button onClick={() => setShowQualitySettings(true)} title="Dimension, aspect ratio, size, format and background checks">
+                            {!isQualityCheckEnabled(qualityRules)
+                                ? 'Quality Checks: Off'
+                                : `Quality Checks: ${qualityIssues.size > 0 ? `${qualityIssues.size} failing` : isAnalyzing ? 'checking...' : 'all pass'}`}
+                        </button>
+                        <button onClick={handleSaveProject} disabled={isSavingProject || isProcessingFiles || (files.length === 0 && organizedImages.size === 0)}>{isSavingProject ? 'Saving...' : 'Save Project'}</button>
+                        <button onClick={() => document.getElementById('project-input')?.click()} disabled={isProcessingFiles}>Open Project</button>
+                        <input type="file" id="project-input" accept={`.${PROJECT_EXTENSION}`} onChange={handleProjectFileChange} style={{ display: 'none' }} aria-label="Project File" />
+                        <button onClick={handleDiscardSession} disabled={!isSessionReady || isAnyZipping || (files.length === 0 && organizedImages.size === 0)}>Discard Session</button>
+                        {(isAnalyzing || visibleDuplicateClusters.length > 0) && (
+                            <button onClick={() => setShowDuplicateReview(true)} disabled={isAnalyzing} title="Images that look like the same shot, within or across groups">
+                                {isAnalyzing ? 'Checking for Duplicates...' : `Review Duplicates (${visibleDuplicateClusters.length})`}
+                            </button>
+                        )}
                         <span className="file-count">{files.length > 0 && `${files.length} file${files.length > 1 ? 's' : ''} selected`}</span>
+                        <div className="prefix-control">
+                            <label htmlFor="rule-set-select">SKU Rules</label>
+                            <select id="rule-set-select" value={activeRuleSet.id} onChange={(e) => setActiveRuleSetId(e.target.value)}>
+                                {skuRuleSets.map(set => <option key={set.id} value={set.id}>{set.name}</option>)}
+                            </select>
+                            <button onClick={() => setShowRuleEditor(true)}>Edit Rules</button>
+                        </div>
                         <div className="prefix-control">
                             <label htmlFor="prefix-input">Global Prefix</label>
                             <input
@@ -528,6 +2680,58 @@ const App = () => {
                                 placeholder="e.g. eci"
                             />
                         </div>
+                        <div className="prefix-control">
+                            <label htmlFor="part-size-select" title="Split Download All into several ZIP files no bigger than this">Max ZIP Size</label>
+                            <select id="part-size-select" value={maxPartBytes} onChange={(e) => setMaxPartBytes(Number(e.target.value))}>
+                                {PART_SIZE_OPTIONS.map(option => <option key={option.bytes} value={option.bytes}>{option.label}</option>)}
+                            </select>
+                        </div>
+                        <label className="append-mode-control" title="Adds manifest.csv and manifest.json listing SKU, sequence, exported and original filename, source archive, dimensions, size and SHA-256 of every file">
+                            <input type="checkbox" checked={includeManifest} onChange={(e) => setIncludeManifest(e.target.checked)} />
+                            Include manifest
+                        </label>
+                        <div className="prefix-control">
+                            <label htmlFor="profile-select">Export Profile</label>
+                            <select id="profile-select" value={exportProfile.id} onChange={(e) => setExportProfileId(e.target.value)}>
+                                {EXPORT_PROFILES.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="prefix-control catalog-control">
+                            <label>Catalog</label>
+                            {catalog ? (
+                                <span className="catalog-status">
+                                    <span title={catalog.name}>{catalog.entries.length} SKUs</span>
+                                    {organizedImages.size > 0 && (
+                                        <span className={unknownSkus.size > 0 ? 'catalog-unknown-count' : 'catalog-ok'}>
+                                            {unknownSkus.size > 0 ? `${unknownSkus.size} unknown` : 'all groups known'}
+                                        </span>
+                                    )}
+                                    <button onClick={() => setShowCoverageReport(true)} title="Catalog SKUs with no images, too few images or no main image">Coverage</button>
+                                    <button onClick={() => setCatalog(null)} aria-label="Remove catalog" title={`Remove ${catalog.name}`}>&times;</button>
+                                </span>
+                            ) : (
+                                <button onClick={() => document.getElementById('catalog-input')?.click()} title="A .csv or .xlsx list of valid SKUs and product names. Groups whose SKU isn't listed are flagged with suggestions.">Load Catalog</button>
+                            )}
+                            <input type="file" id="catalog-input" accept=".csv,.tsv,.txt,.xlsx" onChange={handleCatalogFileChange} style={{ display: 'none' }} aria-label="SKU catalog" />
+                        </div>
+                        <div className="prefix-control template-control">
+                            <label htmlFor="template-input" title={`Tokens: ${FILENAME_TOKENS.map(token => `{${token}}`).join(' ')}. Use {seq:02} to zero-pad and {sku:upper} / {sku:lower} to change case.`}>Filename Template</label>
+                            <input
+                                id="template-input"
+                                type="text"
+                                className={templateError ? 'input-invalid' : ''}
+                                value={effectiveTemplate}
+                                disabled={exportProfile.template !== null}
+                                title={exportProfile.template !== null ? `Set by the ${exportProfile.name} profile` : undefined}
+                                onChange={(e) => setFilenameTemplate(e.target.value)}
+                                placeholder={DEFAULT_FILENAME_TEMPLATE}
+                                spellCheck={false}
+                                aria-invalid={templateError !== null}
+                            />
+                            <span className={templatePreviewError ? 'template-error' : 'template-preview'} title={templatePreviewError ?? templatePreview}>
+                                {templatePreviewError ?? templatePreview}
+                            </span>
+                        </div>
                         <div className="slider-control">
                             <label htmlFor="thumb-width">Thumbnail width</label>
                             <input type="range" id="thumb-width" min="180" max="500" value={thumbnailWidth} onChange={(e) => setThumbnailWidth(Number(e.target.value))} />
@@ -536,22 +2740,119 @@ const App = () => {
                     </div>
                 </div>
                 
+                {jobProgress && (
+                    <div className="job-progress" role="status" aria-live="polite">
+                        <div className="job-progress-info">
+                            <span className="job-progress-label">{jobProgress.label} &middot; {jobProgress.percent}%</span>
+                            {jobProgress.currentFile && <span className="job-progress-file" title={jobProgress.currentFile}>{jobProgress.currentFile}</span>}
+                            <button onClick={handleCancelJobs}>Cancel</button>
+                        </div>
+                        <div className="job-progress-track">
+                            <div className="job-progress-fill" style={{ width: `${jobProgress.percent}%` }}></div>
+                        </div>
+                    </div>
+                )}
                 {isLoading && <div className="loader-container"><div className="loader"></div><p>Organizing your images...</p></div>}
                 {error && <div className="error-message">{error}</div>}
 
+                {(history.past.length > 0 || history.future.length > 0) && (
+                    <div className="history-bar">
+                        <button onClick={handleUndo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">&#8630; Undo</button>
+                        <button onClick={handleRedo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">&#8631; Redo</button>
+                        <button onClick={() => setShowHistory(prev => !prev)} aria-expanded={showHistory}>History ({history.past.length})</button>
+                        {showHistory && (
+                            <ol className="history-list">
+                                <li className={history.past.length === 0 ? 'history-current' : ''}>
+                                    <button onClick={() => handleJumpToHistory(0)}>Start</button>
+                                </li>
+                                {[...history.past, ...history.future].map((entry, index) => (
+                                    <li
+                                        key={index}
+                                        className={index + 1 === history.past.length ? 'history-current' : index >= history.past.length ? 'history-undone' : ''}
+                                    >
+                                        <button onClick={() => handleJumpToHistory(index + 1)}>{entry.label}</button>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )}
+
                 {organizedImages.size > 0 && (
-                    <div className="results-grid" style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${thumbnailWidth}px, 1fr))` }}>
-                        {[...organizedImages.entries()].map(([sku, imageDatas]) => (
-                            <div key={sku} className={`group-card ${draggedGroupSku === sku ? 'group-dragging' : ''}`}
-                                draggable
-                                onDragStart={(e) => handleGroupDragStart(e, sku)}
-                                onDrop={(e) => handleGroupDrop(e, sku)}
-                                onDragOver={handleDragOver}
-                                onDragEnter={(e) => handleGroupDragEnter(e, sku)}
-                                onDragLeave={handleGroupDragLeave}
-                                onDragEnd={handleGroupDragEnd}
+                    <div className="results-toolbar" role="search">
+                        <input
+                            type="search"
+                            className={groupFilterError ? 'invalid' : ''}
+                            value={groupFilter.query}
+                            onChange={(e) => setGroupFilterField('query', e.target.value)}
+                            placeholder={groupFilter.useRegex ? 'SKU regex, e.g. ^2405' : 'Find SKU'}
+                            aria-label="Filter groups by SKU"
+                            title={groupFilterError || undefined}
+                        />
+                        <label className="append-mode-control">
+                            <input type="checkbox" checked={groupFilter.useRegex} onChange={(e) => setGroupFilterField('useRegex', e.target.checked)} />
+                            Regex
+                        </label>
+                        <div className="results-toolbar-range">
+                            <input
+                                type="number"
+                                min="0"
+                                value={groupFilter.minImages ?? ''}
+                                onChange={(e) => setGroupFilterField('minImages', e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                                placeholder="Min"
+                                aria-label="Minimum images"
+                            />
+                            <span>&ndash;</span>
+                            <input
+                                type="number"
+                                min="0"
+                                value={groupFilter.maxImages ?? ''}
+                                onChange={(e) => setGroupFilterField('maxImages', e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                                placeholder="Max"
+                                aria-label="Maximum images"
+                            />
+                            <span>images</span>
+                        </div>
+                        <select value={groupFilter.status} onChange={(e) => setGroupFilterField('status', e.target.value as GroupStatusFilter)} aria-label="Filter groups by status">
+                            {(Object.keys(GROUP_STATUS_LABELS) as GroupStatusFilter[]).map(status => <option key={status} value={status}>{GROUP_STATUS_LABELS[status]}</option>)}
+                        </select>
+                        <select value={groupFilter.sort} onChange={(e) => setGroupFilterField('sort', e.target.value as GroupSort)} aria-label="Sort groups">
+                            {(Object.keys(GROUP_SORT_LABELS) as GroupSort[]).map(sort => <option key={sort} value={sort}>{GROUP_SORT_LABELS[sort]}</option>)}
+                        </select>
+                        <span className="results-toolbar-count" aria-live="polite">
+                            {isFilterActive ? `${visibleSkus.length} of ${organizedImages.size} groups` : `${organizedImages.size} group${organizedImages.size !== 1 ? 's' : ''}`}
+                        </span>
+                        {groupFilter.sort !== 'original' && (
+                            <button onClick={handleKeepSortOrder} disabled={isAnyZipping} title="Reorder the groups this way for good; exports follow the group order">Keep This Order</button>
+                        )}
+                        {(isFilterActive || groupFilter.sort !== DEFAULT_GROUP_FILTER.sort) && (
+                            <button onClick={() => setGroupFilter(DEFAULT_GROUP_FILTER)}>Reset</button>
+                        )}
+                        <button onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (?)">Shortcuts</button>
+                    </div>
+                )}
+                {organizedImages.size > 0 && visibleSkus.length === 0 && (
+                    <p className="results-empty">{groupFilterError || 'No groups match the filter.'}</p>
+                )}
+
+                {visibleSkus.length > 0 && (
+                    <div className={`results-grid ${pointerDrag ? 'is-dragging' : ''}`} style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${thumbnailWidth}px, 1fr))` }} onMouseDown={handleLassoStart}>
+                        {visibleSkus.map(sku => {
+                            const imageDatas = organizedImages.get(sku)!;
+                            const violations = getProfileViolations(exportProfile, imageDatas, imageProcessing);
+                            const catalogEntry = catalog?.bySku.get(sku);
+                            const suggestions = unknownSkus.get(sku);
+                            const failingImages = imageDatas.filter(image => qualityIssues.has(image.id)).length;
+                            return (
+                            <div key={sku} className={`group-card ${draggedSku === sku ? 'group-dragging' : ''} ${groupDropTarget?.sku === sku ? `group-drop-${groupDropTarget.placement}` : ''} ${imageDropTarget?.sku === sku && draggedSku !== sku ? 'image-drop-target' : ''}`}
+                                data-sku={sku}
+                                data-count={imageDatas.length}
                             >
-                                <div className="group-header">
+                                <div
+                                    className="group-header"
+                                    title={`${groupFilter.sort === 'original' ? 'Drag onto the middle of another group to merge, or onto its left or right edge to reorder' : 'Drag onto another group to merge'}. On touch screens, press and hold first.`}
+                                    onPointerDown={(e) => handlePointerDragStart(e, { kind: 'group', sku })}
+                                >
                                     <div className="group-info">
                                     {editingSku === sku ? (
                                         <input
@@ -569,10 +2870,22 @@ const App = () => {
                                     ) : (
                                         <span className="group-name" title={sku} onClick={(e) => { e.stopPropagation(); setEditingSku(sku); }}>{sku}</span>
                                     )}
+                                      {catalogEntry?.name && <span className="catalog-product-name" title={catalogEntry.name}>{catalogEntry.name}</span>}
                                       <span className="image-count">{imageDatas.length} image{imageDatas.length !== 1 ? 's' : ''}</span>
+                                      {failingImages > 0 && (
+                                          <span className="quality-count" title="Images failing the quality checks">
+                                              {failingImages} failing quality checks
+                                          </span>
+                                      )}
+                                      {exportSizes[sku] && (
+                                          <span className="export-size" title="Size before and after export processing">
+                                              {formatBytes(exportSizes[sku].originalBytes)} &rarr; {formatBytes(exportSizes[sku].exportedBytes)}
+                                          </span>
+                                      )}
                                     </div>
+
                                     <div className="group-header-actions">
-                                        <button className="download-folder-btn" onClick={() => handleDownloadSingleFolder(sku, imageDatas)} disabled={isAnyZipping} title={`Download ${sku}.zip`} aria-label={`Download ${sku}.zip`}>
+                                        <button className="download-folder-btn" onClick={() => handleDownloadSingleFolder(sku, imageDatas)} disabled={isAnyZipping || templateError !== null} title={`Download ${sku}.zip`} aria-label={`Download ${sku}.zip`}>
                                             {zippingFolder === sku ? <div className="mini-loader"></div> : 'Download Folder'}
                                         </button>
                                         <button 
@@ -586,24 +2899,68 @@ const App = () => {
                                         </button>
                                     </div>
                                 </div>
-                                <div className="image-grid-inner" onDrop={(e) => handleDropReorder(e, sku, imageDatas.length)}>
+                                {suggestions && (
+                                    <div className="catalog-warning" role="status">
+                                        <span>Not in the catalog.</span>
+                                        {suggestions.length > 0 ? (
+                                            <span className="catalog-suggestions">
+                                                {suggestions.map(suggestion => (
+                                                    <button
+                                                        key={suggestion.sku}
+                                                        onClick={(e) => { e.stopPropagation(); handleSkuChange(sku, suggestion.sku); }}
+                                                        disabled={isAnyZipping}
+                                                        title={`${organizedImages.has(suggestion.sku) ? 'Merge into' : 'Rename to'} ${suggestion.sku}${suggestion.name ? ` (${suggestion.name})` : ''}`}
+                                                    >
+                                                        {organizedImages.has(suggestion.sku) ? 'Merge into' : 'Rename to'} {suggestion.sku}
+                                                    </button>
+                                                ))}
+                                            </span>
+                                        ) : (
+                                            <span>No close matches.</span>
+                                        )}
+                                    </div>
+                                )}
+                                {violations.length > 0 && (
+                                    <ul className="profile-violations" aria-label={`${exportProfile.name} issues`}>
+                                        {violations.map(violation => <li key={violation}>{violation}</li>)}
+                                    </ul>
+                                )}
+                                <div className="image-grid-inner" role="list" aria-label={`${sku} images`}>
                                     {imageDatas.map((imageData, index) => {
                                         const {id, url, file, prefix} = imageData;
+                                        const duplicateCluster = duplicateClusterOf.get(id);
+                                        const imageIssues = qualityIssues.get(id);
                                         return (
+                                        <React.Fragment key={id}>
+                                        {placeholderTarget?.sku === sku && placeholderTarget.slot === index && <div className="image-drop-placeholder" aria-hidden="true"></div>}
                                         <div
-                                            key={id}
-                                            className={`image-container ${draggedItem?.group === sku && draggedItem?.index === index ? 'dragging' : ''}`}
-                                            draggable
-                                            onDragStart={(e) => handleDragStart(e, sku, index)}
-                                            onDragOver={handleDragOver}
-                                            onDragEnter={handleDragEnterReorder}
-                                            onDragLeave={handleDragLeaveReorder}
-                                            onDrop={(e) => handleDropReorder(e, sku, index)}
-                                            onDragEnd={handleDragEnd}
+                                            className={`image-container ${draggedImageId === id ? 'dragging' : ''} ${imageIssues ? 'has-quality-issues' : ''} ${selectedImageIds.has(id) ? 'selected' : ''}`}
+                                            data-image-id={id}
+                                            data-index={index}
+                                            role="listitem"
+                                            tabIndex={id === tabbableImageId ? 0 : -1}
+                                            aria-label={`${file.name}, ${index + 1} of ${imageDatas.length} in ${sku}${selectedImageIds.has(id) ? ', selected' : ''}`}
+                                            aria-describedby="thumbnail-keyboard-hint"
+                                            onFocus={() => setFocusedImageId(id)}
+                                            onKeyDown={(e) => handleImageKeyDown(e, sku, index)}
+                                            onPointerDown={(e) => handlePointerDragStart(e, { kind: 'image', sku, index, imageId: id })}
                                         >
-                                            <div className="image-wrapper" onClick={() => openLightbox(imageDatas, index)}>
-                                                <img src={url} alt={file.name} loading="lazy" />
+                                            <div className="image-wrapper" onClick={(e) => handleImageClick(e, imageDatas, index)}>
+                                                <img src={url} alt={file.name} loading="lazy" draggable={false} />
                                                 <span className="image-sequence">{index + 1}</span>
+                                                {duplicateCluster && (
+                                                    <span
+                                                        className="duplicate-badge"
+                                                        title={`Looks like ${duplicateCluster.members.filter(member => member.image.id !== id).map(member => `${member.image.file.name} (${member.sku})`).join(', ')}`}
+                                                    >
+                                                        Duplicate
+                                                    </span>
+                                                )}
+                                                {imageIssues && (
+                                                    <span className="quality-badge" title={imageIssues.map(issue => issue.message).join('\n')} aria-label={`${imageIssues.length} quality issue${imageIssues.length !== 1 ? 's' : ''}`}>
+                                                        &#9888; {imageIssues.length}
+                                                    </span>
+                                                )}
                                                 <div className="image-overlay">
                                                     <div className="image-actions">
                                                         <button 
@@ -632,6 +2989,13 @@ const App = () => {
                                                 </div>
                                             </div>
                                             <div className="image-details">
+                                                <input
+                                                    type="checkbox"
+                                                    className="image-select"
+                                                    checked={selectedImageIds.has(id)}
+                                                    onChange={() => toggleImageSelection(id)}
+                                                    aria-label={`Select ${file.name}`}
+                                                />
                                                 <input
                                                     type="text"
                                                     className="image-prefix-input"
@@ -641,28 +3005,526 @@ const App = () => {
                                                     onClick={(e) => e.stopPropagation()}
                                                     aria-label="Image-specific prefix"
                                                 />
-                                                <span className="image-name" title={file.name}>{file.name}</span>
+                                                <span className="image-name" title={imageData.sourcePath || file.name}>{file.name}</span>
                                             </div>
                                         </div>
+                                        </React.Fragment>
                                     )})}
+                                    {placeholderTarget?.sku === sku && placeholderTarget.slot === imageDatas.length && <div className="image-drop-placeholder" aria-hidden="true"></div>}
                                 </div>
                             </div>
-                        ))}
+                        )})}
                     </div>
                 )}
             </main>
 
+            <div className="visually-hidden" role="status" aria-live="polite">{announcement}</div>
+            <p id="thumbnail-keyboard-hint" className="visually-hidden">
+                Arrow keys move between images. Alt plus arrow keys move the image. M assigns it to a SKU. Press question mark for all shortcuts.
+            </p>
+
+            {lassoRect && <div className="lasso-rect" style={lassoRect}></div>}
+
+            {pointerDrag && (
+                <div
+                    className={`drag-ghost drag-ghost-${pointerDrag.item.kind}`}
+                    style={{ left: pointerDrag.x - pointerDrag.offsetX, top: pointerDrag.y - pointerDrag.offsetY, width: pointerDrag.width, height: pointerDrag.item.kind === 'image' ? pointerDrag.width : pointerDrag.height }}
+                    aria-hidden="true"
+                >
+                    {pointerDrag.item.kind === 'image'
+                        ? <img src={organizedImages.get(pointerDrag.item.sku)?.[pointerDrag.item.index]?.url} alt="" />
+                        : <span>{pointerDrag.item.sku}</span>}
+                </div>
+            )}
+
+            {selectedImageIds.size > 0 && (
+                <div className="selection-toolbar" role="toolbar" aria-label="Selected images">
+                    <span className="selection-count">{selectionLabel(selectedImageIds.size)} selected</span>
+                    <div className="selection-toolbar-group">
+                        <input
+                            type="text"
+                            value={bulkSku}
+                            onChange={(e) => setBulkSku(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleBulkMove(); }}
+                            placeholder="SKU"
+                            list="group-sku-options"
+                            aria-label="Target SKU"
+                        />
+                        <datalist id="group-sku-options">
+                            {[...organizedImages.keys()].map(sku => <option key={sku} value={sku} />)}
+                        </datalist>
+                        <button onClick={handleBulkMove} disabled={!bulkSku.trim()}>Move to SKU</button>
+                        <button onClick={handleBulkSplit} title="Move the selection into a new group, named from the SKU field if given">Split into New Group</button>
+                    </div>
+                    <div className="selection-toolbar-group">
+                        <input
+                            type="text"
+                            value={bulkPrefix}
+                            onChange={(e) => setBulkPrefix(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleBulkPrefix(); }}
+                            placeholder={filenamePrefix || 'Prefix'}
+                            aria-label="Prefix for the selected images"
+                        />
+                        <button onClick={handleBulkPrefix} title="An empty prefix resets the images to the global prefix">Set Prefix</button>
+                    </div>
+                    <button onClick={handleBulkDuplicate}>Duplicate</button>
+                    <button className="selection-delete" onClick={handleBulkDelete}>Delete</button>
+                    <button onClick={() => setSelectedImageIds(new Set())} aria-label="Clear selection" title="Clear selection (Esc)">&times;</button>
+                </div>
+            )}
+
             {lightboxOpen && (
-                <div className="lightbox" onClick={closeLightbox}>
-                    <button className="lightbox-close" aria-label="Close" onClick={closeLightbox}>&times;</button>
+                <div className="lightbox" role="dialog" aria-modal="true" aria-label="Image preview" onClick={closeLightbox}>
+                    <button className="lightbox-close" aria-label="Close" onClick={closeLightbox} autoFocus>&times;</button>
                     <button className="lightbox-nav lightbox-prev" aria-label="Previous" onClick={(e) => { e.stopPropagation(); showPrevImage(); }}>&#10094;</button>
                     <div className="lightbox-content" onClick={(e) => e.stopPropagation()}>
                         <img src={lightboxImages[lightboxIndex].url} alt={lightboxImages[lightboxIndex].file.name} />
+                        <p className="lightbox-caption" aria-live="polite">
+                            {lightboxImages[lightboxIndex].file.name} ({lightboxIndex + 1} of {lightboxImages.length})
+                        </p>
                     </div>
                     <button className="lightbox-nav lightbox-next" aria-label="Next" onClick={(e) => { e.stopPropagation(); showNextImage(); }}>&#10095;</button>
                 </div>
             )}
 
+            {showRuleEditor && (
+                <div className="modal-overlay" onClick={() => setShowRuleEditor(false)}>
+                    <div className="modal-content modal-wide" onClick={(e) => e.stopPropagation()}>
+                        <h3>SKU Extraction Rules</h3>
+                        <p>Rules run from top to bottom. The first rule that matches a filename decides its SKU. Use a named group <code>(?&lt;sku&gt;...)</code> to pick the SKU out of a longer match.</p>
+                        <div className="rule-set-bar">
+                            <select value={activeRuleSet.id} onChange={(e) => setActiveRuleSetId(e.target.value)} aria-label="Active rule set">
+                                {skuRuleSets.map(set => <option key={set.id} value={set.id}>{set.name}</option>)}
+                            </select>
+                            <button onClick={handleAddRuleSet}>New Set</button>
+                            <button onClick={handleRenameRuleSet}>Rename</button>
+                            <button onClick={handleDeleteRuleSet} disabled={skuRuleSets.length <= 1}>Delete Set</button>
+                            <button onClick={handleExportRuleSet}>Export Set</button>
+                        </div>
+                        <div className="rule-list">
+                            {activeRuleSet.rules.map((rule, index) => {
+                                const ruleError = getSkuRuleError(rule);
+                                return (
+                                <div key={rule.id} className={`rule-row ${rule.enabled ? '' : 'rule-disabled'}`}>
+                                    <div className="rule-row-header">
+                                        <input type="checkbox" checked={rule.enabled} onChange={(e) => handleRuleChange(rule.id, { enabled: e.target.checked })} aria-label="Rule enabled" />
+                                        <input type="text" className="rule-name-input" value={rule.name} onChange={(e) => handleRuleChange(rule.id, { name: e.target.value })} aria-label="Rule name" />
+                                        <button onClick={() => handleMoveRule(index, -1)} disabled={index === 0} aria-label="Move rule up">&uarr;</button>
+                                        <button onClick={() => handleMoveRule(index, 1)} disabled={index === activeRuleSet.rules.length - 1} aria-label="Move rule down">&darr;</button>
+                                        <button onClick={() => handleDeleteRule(rule.id)} aria-label="Delete rule">&times;</button>
+                                    </div>
+                                    <div className="rule-fields">
+                                        <label>Pattern
+                                            <input type="text" className="rule-pattern-input" value={rule.pattern} onChange={(e) => handleRuleChange(rule.id, { pattern: e.target.value })} placeholder="e.g. ^(?<sku>[A-Z]{3}\d+)" spellCheck={false} />
+                                        </label>
+                                        <label>Flags
+                                            <input type="text" className="rule-flags-input" value={rule.flags} onChange={(e) => handleRuleChange(rule.id, { flags: e.target.value })} spellCheck={false} />
+                                        </label>
+                                        <label>Match against
+                                            <select value={rule.target} onChange={(e) => handleRuleChange(rule.id, { target: e.target.value as SkuRuleTarget })}>
+                                                <option value="basename">Name without extension</option>
+                                                <option value="filename">Full filename</option>
+                                            </select>
+                                        </label>
+                                        <label>Strip prefix
+                                            <input type="text" value={rule.stripPrefix} onChange={(e) => handleRuleChange(rule.id, { stripPrefix: e.target.value })} />
+                                        </label>
+                                        <label>Strip suffix
+                                            <input type="text" value={rule.stripSuffix} onChange={(e) => handleRuleChange(rule.id, { stripSuffix: e.target.value })} />
+                                        </label>
+                                        <label>Case
+                                            <select value={rule.caseMode} onChange={(e) => handleRuleChange(rule.id, { caseMode: e.target.value as SkuRuleCase })}>
+                                                <option value="none">Keep</option>
+                                                <option value="upper">UPPERCASE</option>
+                                                <option value="lower">lowercase</option>
+                                            </select>
+                                        </label>
+                                    </div>
+                                    {ruleError && <span className="rule-error">{ruleError}</span>}
+                                </div>
+                            )})}
+                        </div>
+                        <button onClick={handleAddRule}>Add Rule</button>
+                        <h4>Test Panel</h4>
+                        {files.length === 0 ? (
+                            <p className="rule-test-empty">Load some files to see which rule matches each of them.</p>
+                        ) : (
+                            <div className="rule-test-panel">
+                                <table>
+                                    <thead>
+                                        <tr><th>File</th><th>Rule</th><th>SKU</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {files.map((file, index) => {
+                                            const { sku, rule } = getSkuFromFilename(file.name, activeRuleSet.rules);
+                                            return (
+                                                <tr key={`${file.name}-${index}`} className={rule ? '' : 'rule-test-unmatched'}>
+                                                    <td title={file.name}>{file.name}</td>
+                                                    <td>{rule ? rule.name : 'No match'}</td>
+                                                    <td>{sku}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        <button className="primary" onClick={() => setShowRuleEditor(false)}>Done</button>
+                    </div>
+                </div>
+            )}
+
+            {folderWriteResults && (
+                <div className="modal-overlay" onClick={() => setFolderWriteResults(null)}>
+                    <div className="modal-content modal-wide" onClick={(e) => e.stopPropagation()}>
+                        <h3>Save to Folder</h3>
+                        <p>
+                            {(['written', 'overwritten', 'renamed', 'skipped', 'failed'] as const)
+                                .map(status => ({ status, count: folderWriteResults.filter(result => result.status === status).length }))
+                                .filter(({ count }) => count > 0)
+                                .map(({ status, count }) => `${count} ${status}`)
+                                .join(' · ')}
+                        </p>
+                        <div className="rule-test-panel">
+                            <table>
+                                <thead>
+                                    <tr><th>File</th><th>Result</th><th>Details</th></tr>
+                                </thead>
+                                <tbody>
+                                    {folderWriteResults.map((result, index) => (
+                                        <tr key={`${result.path}-${index}`} className={result.status === 'failed' ? 'rule-test-unmatched' : ''}>
+                                            <td title={result.path}>{result.path}</td>
+                                            <td>{result.status}</td>
+                                            <td title={result.detail}>{result.detail || ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <button className="primary" onClick={() => setFolderWriteResults(null)}>Close</button>
+                    </div>
+                </div>
+            )}
+
+            {pendingMerge && organizedImages.has(pendingMerge.sourceSku) && organizedImages.has(pendingMerge.targetSku) && (() => {
+                const sourceImages = organizedImages.get(pendingMerge.sourceSku)!;
+                const targetImages = organizedImages.get(pendingMerge.targetSku)!;
+                const renderPreview = (sku: string, images: OrganizedImage[]) => (
+                    <div className="merge-preview-group">
+                        <strong title={sku}>{sku}</strong>
+                        <span>{images.length} image{images.length !== 1 ? 's' : ''}</span>
+                        <div className="merge-preview-thumbs">
+                            {images.slice(0, MERGE_PREVIEW_LIMIT).map(image => <img key={image.id} src={image.url} alt={image.file.name} title={image.file.name} loading="lazy" />)}
+                            {images.length > MERGE_PREVIEW_LIMIT && <span className="merge-preview-more">+{images.length - MERGE_PREVIEW_LIMIT}</span>}
+                        </div>
+                    </div>
+                );
+                return (
+                    <div className="modal-overlay" onClick={() => setPendingMerge(null)}>
+                        <div className="modal-content modal-wide" onClick={(e) => e.stopPropagation()}>
+                            <h3>Merge Groups?</h3>
+                            <p>
+                                The images of <strong>{pendingMerge.sourceSku}</strong> are added after those of <strong>{pendingMerge.targetSku}</strong>,
+                                leaving {pendingMerge.targetSku} with {sourceImages.length + targetImages.length} images. {pendingMerge.sourceSku} is removed. You can undo this.
+                            </p>
+                            <div className="merge-preview">
+                                {renderPreview(pendingMerge.sourceSku, sourceImages)}
+                                <span className="merge-preview-arrow" aria-hidden="true">&rarr;</span>
+                                {renderPreview(pendingMerge.targetSku, targetImages)}
+                            </div>
+                            <div className="modal-actions">
+                                <button onClick={() => setPendingMerge(null)}>Cancel</button>
+                                <button className="primary" onClick={handleConfirmMerge}>Merge into {pendingMerge.targetSku}</button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {paletteTargetIds && (() => {
+                const options = getPaletteOptions();
+                const activeIndex = Math.min(paletteIndex, options.length - 1);
+                return (
+                    <div className="modal-overlay" onClick={closeCommandPalette}>
+                        <div className="modal-content command-palette" role="dialog" aria-modal="true" aria-label="Assign to SKU" onClick={(e) => e.stopPropagation()}>
+                            <input
+                                type="text"
+                                role="combobox"
+                                aria-expanded="true"
+                                aria-controls="command-palette-options"
+                                aria-autocomplete="list"
+                                aria-activedescendant={activeIndex >= 0 ? `command-palette-option-${activeIndex}` : undefined}
+                                value={paletteQuery}
+                                onChange={(e) => { setPaletteQuery(e.target.value); setPaletteIndex(0); }}
+                                onKeyDown={(e) => handlePaletteKeyDown(e, options)}
+                                placeholder={`Assign ${selectionLabel(paletteTargetIds.size)} to SKU...`}
+                                autoFocus
+                            />
+                            {options.length > 0 ? (
+                                <ul id="command-palette-options" role="listbox" aria-label="SKUs">
+                                    {options.map((option, index) => (
+                                        <li
+                                            key={option.label}
+                                            id={`command-palette-option-${index}`}
+                                            role="option"
+                                            aria-selected={index === activeIndex}
+                                            className={index === activeIndex ? 'active' : ''}
+                                            onMouseMove={() => setPaletteIndex(index)}
+                                            onClick={() => handleAssignToSku(option.sku)}
+                                        >
+                                            <span className="command-palette-sku">{option.label}</span>
+                                            <span className="command-palette-detail">{option.detail}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="command-palette-empty">Type a SKU to create a new group.</p>
+                            )}
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {showShortcuts && (
+                <div className="modal-overlay" onClick={() => setShowShortcuts(false)}>
+                    <div className="modal-content" role="dialog" aria-modal="true" aria-labelledby="shortcuts-title" onClick={(e) => e.stopPropagation()}>
+                        <h3 id="shortcuts-title">Keyboard Shortcuts</h3>
+                        <p>Tab to an image in the results, then:</p>
+                        <div className="rule-test-panel shortcuts-panel">
+                            <table>
+                                <tbody>
+                                    {KEYBOARD_SHORTCUTS.map(([keys, action]) => (
+                                        <tr key={keys}>
+                                            <td><kbd>{keys}</kbd></td>
+                                            <td>{action}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <button className="primary" onClick={() => setShowShortcuts(false)} autoFocus>Done</button>
+                    </div>
+                </div>
+            )}
+
+            {showDuplicateReview && (
+                <div className="modal-overlay" onClick={() => setShowDuplicateReview(false)}>
+                    <div className="modal-content modal-wide" onClick={(e) => e.stopPropagation()}>
+                        <h3>Duplicate Images</h3>
+                        {visibleDuplicateClusters.length === 0 ? (
+                            <p>No duplicates left to review.</p>
+                        ) : (
+                            <p>{visibleDuplicateClusters.length} set{visibleDuplicateClusters.length !== 1 ? 's' : ''} of images look like the same shot. The selected image in each set is kept and the others are removed.</p>
+                        )}
+                        <div className="duplicate-clusters">
+                            {visibleDuplicateClusters.map((cluster, clusterIndex) => {
+                                const keepId = duplicateKeepIds[cluster.key] || cluster.bestId;
+                                return (
+                                    <fieldset className="duplicate-cluster" key={cluster.key}>
+                                        <legend>Set {clusterIndex + 1}</legend>
+                                        <div className="duplicate-members">
+                                            {cluster.members.map(member => (
+                                                <label key={member.image.id} className={`duplicate-member ${member.image.id === keepId ? 'keep' : ''}`}>
+                                                    <img src={member.image.url} alt={member.image.file.name} loading="lazy" />
+                                                    <span className="duplicate-member-name" title={member.image.sourcePath || member.image.file.name}>
+                                                        <input
+                                                            type="radio"
+                                                            name={`keep-${cluster.key}`}
+                                                            checked={member.image.id === keepId}
+                                                            onChange={() => setDuplicateKeepIds(prev => ({ ...prev, [cluster.key]: member.image.id }))}
+                                                        />
+                                                        {member.image.file.name}
+                                                    </span>
+                                                    <span className="duplicate-member-meta">
+                                                        {member.sku} · {member.fingerprint.width}&times;{member.fingerprint.height} · {formatBytes(member.image.file.size)}
+                                                        {cluster.members.some(other => other !== member && other.image.file === member.image.file) && ' · same file'}
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <button onClick={() => setDismissedDuplicates(prev => new Set(prev).add(cluster.key))}>Not Duplicates</button>
+                                    </fieldset>
+                                );
+                            })}
+                        </div>
+                        <div className="modal-actions">
+                            <button onClick={() => setShowDuplicateReview(false)}>Close</button>
+                            {visibleDuplicateClusters.length > 0 && (
+                                <button className="primary" onClick={() => handleRemoveDuplicates(visibleDuplicateClusters)} disabled={isAnyZipping}>
+                                    Keep Selected, Remove {visibleDuplicateClusters.reduce((total, cluster) => total + cluster.members.length - 1, 0)}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showCoverageReport && catalog && (() => {
+                const coverage = getCatalogCoverage(catalog, organizedImages, minImages);
+                const missingCount = coverage.filter(row => row.issues.includes('missing')).length;
+                return (
+                    <div className="modal-overlay" onClick={() => setShowCoverageReport(false)}>
+                        <div className="modal-content modal-wide" onClick={(e) => e.stopPropagation()}>
+                            <h3>Catalog Coverage</h3>
+                            <p>
+                                {coverage.length === 0
+                                    ? `All ${catalog.entries.length} catalog SKUs have at least ${minImages} image${minImages !== 1 ? 's' : ''} and a main image.`
+                                    : `${coverage.length} of ${catalog.entries.length} catalog SKUs need images · ${missingCount} with none.`}
+                            </p>
+                            <div className="processing-fields coverage-fields">
+                                <label htmlFor="min-images-input">Required images per SKU</label>
+                                <input
+                                    id="min-images-input"
+                                    type="number"
+                                    min="1"
+                                    value={minImages}
+                                    onChange={(e) => setMinImages(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                                />
+                            </div>
+                            {coverage.length > 0 && (
+                                <div className="rule-test-panel">
+                                    <table>
+                                        <thead>
+                                            <tr><th>SKU</th><th>Product</th><th>Images</th><th>Issues</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {coverage.map(row => (
+                                                <tr key={row.sku} className={row.issues.includes('missing') ? 'rule-test-unmatched' : ''}>
+                                                    <td title={row.sku}>{row.sku}</td>
+                                                    <td title={row.name}>{row.name}</td>
+                                                    <td>{row.imageCount}</td>
+                                                    <td>{row.issues.map(issue => COVERAGE_ISSUE_LABELS[issue]).join(', ')}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                            <div className="modal-actions">
+                                <button onClick={handleExportCoverageReport} disabled={coverage.length === 0}>Export CSV</button>
+                                <button className="primary" onClick={() => setShowCoverageReport(false)}>Close</button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {showQualitySettings && (
+                <div className="modal-overlay" onClick={() => setShowQualitySettings(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <h3>Quality Checks</h3>
+                        <p>Images that fail a check get a warning badge. Leave a field empty or at 0 to skip that check.</p>
+                        <div className="processing-fields">
+                            <label htmlFor="min-width-input">Minimum width (px)</label>
+                            <input
+                                id="min-width-input"
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={qualityRules.minWidth}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, minWidth: Math.max(0, Number(e.target.value) || 0) }))}
+                            />
+                            <label htmlFor="min-height-input">Minimum height (px)</label>
+                            <input
+                                id="min-height-input"
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={qualityRules.minHeight}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, minHeight: Math.max(0, Number(e.target.value) || 0) }))}
+                            />
+                            <label htmlFor="aspect-ratios-input">Aspect ratios</label>
+                            <input
+                                id="aspect-ratios-input"
+                                type="text"
+                                placeholder="e.g. 1:1, 4:5"
+                                value={qualityRules.aspectRatios}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, aspectRatios: e.target.value }))}
+                            />
+                            <label htmlFor="max-file-size-input">Maximum file size (MB)</label>
+                            <input
+                                id="max-file-size-input"
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={qualityRules.maxFileBytes / (1024 * 1024)}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, maxFileBytes: Math.max(0, Number(e.target.value) || 0) * 1024 * 1024 }))}
+                            />
+                            <label htmlFor="allowed-formats-input">Allowed formats</label>
+                            <input
+                                id="allowed-formats-input"
+                                type="text"
+                                placeholder="e.g. jpg, png"
+                                value={qualityRules.allowedFormats}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, allowedFormats: e.target.value }))}
+                            />
+                            <label htmlFor="white-background-input">Main image on a near-white background</label>
+                            <input
+                                id="white-background-input"
+                                type="checkbox"
+                                checked={qualityRules.mainWhiteBackground}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, mainWhiteBackground: e.target.checked }))}
+                            />
+                            <label htmlFor="block-export-input">Block export while images fail</label>
+                            <input
+                                id="block-export-input"
+                                type="checkbox"
+                                checked={qualityRules.blockExport}
+                                onChange={(e) => setQualityRules(prev => ({ ...prev, blockExport: e.target.checked }))}
+                            />
+                        </div>
+                        {qualityRulesError && <p className="quality-rules-error">{qualityRulesError}</p>}
+                        <p className="processing-hint">Checks apply to the images as loaded, before export processing. Dimensions, aspect ratio and background are checked once an image has been decoded.</p>
+                        <button className="primary" onClick={() => setShowQualitySettings(false)}>Done</button>
+                    </div>
+                </div>
+            )}
+
+            {showProcessingSettings && (
+                <div className="modal-overlay" onClick={() => setShowProcessingSettings(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <h3>Image Processing on Export</h3>
+                        <p>Images are resized and re-encoded in your browser while the ZIP is built. The originals you loaded are never changed.</p>
+                        <div className="processing-fields">
+                            <label htmlFor="max-edge-input">Maximum edge (px, 0 = keep size)</label>
+                            <input
+                                id="max-edge-input"
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={imageProcessing.maxEdge}
+                                onChange={(e) => setImageProcessing(prev => ({ ...prev, maxEdge: Math.max(0, Number(e.target.value) || 0) }))}
+                            />
+                            <label htmlFor="format-select">Format</label>
+                            <select id="format-select" value={imageProcessing.format} onChange={(e) => setImageProcessing(prev => ({ ...prev, format: e.target.value as OutputFormat }))}>
+                                <option value="original">Keep original</option>
+                                <option value="jpeg">JPEG</option>
+                                <option value="webp">WebP</option>
+                                <option value="png">PNG</option>
+                            </select>
+                            <label htmlFor="quality-input">Quality ({imageProcessing.quality}%)</label>
+                            <input
+                                id="quality-input"
+                                type="range"
+                                min="1"
+                                max="100"
+                                value={imageProcessing.quality}
+                                onChange={(e) => setImageProcessing(prev => ({ ...prev, quality: Number(e.target.value) }))}
+                            />
+                            <label htmlFor="strip-metadata-input">Strip metadata (EXIF, GPS)</label>
+                            <input
+                                id="strip-metadata-input"
+                                type="checkbox"
+                                checked={imageProcessing.stripMetadata}
+                                onChange={(e) => setImageProcessing(prev => ({ ...prev, stripMetadata: e.target.checked }))}
+                            />
+                        </div>
+                        <p className="processing-hint">GIF and other formats the browser cannot encode are exported unchanged when the format is "Keep original".</p>
+                        <button className="primary" onClick={() => setShowProcessingSettings(false)}>Done</button>
+                    </div>
+                </div>
+            )}
+
             {showDriveHelper && (
                 <div className="modal-overlay" onClick={() => setShowDriveHelper(false)}>
                     <div className="modal-content" onClick={(e) => e.stopPropagation()}>
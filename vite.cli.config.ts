@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Builds the `riva` command-line tool into dist-cli/riva.js for Node 20+.
+export default defineConfig({
+    build: {
+        ssr: 'cli/riva.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            output: {
+                entryFileNames: 'riva.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
@@ -0,0 +1,92 @@
+import { createZip, extractArchive, type ExtractedEntry, type ZipEntry } from './core';
+
+// Runs ZIP building and extraction off the main thread. Each worker handles a single job;
+// the page cancels a job by terminating its worker.
+
+export type ZipWorkerRequest =
+    | { type: 'zip'; entries: ZipEntry[]; stream: boolean }
+    | { type: 'extract'; archive: Blob; archivePath: string; maxDepth: number }
+    // Sent by the page after it has written a streamed chunk.
+    | { type: 'ack' };
+
+export type ZipWorkerResponse =
+    | { type: 'progress'; percent: number; currentFile: string | null }
+    | { type: 'chunk'; data: Uint8Array }
+    // `blob` is null when the archive was streamed out as chunks.
+    | { type: 'zipped'; blob: Blob | null }
+    | { type: 'extracted'; files: ExtractedEntry[]; warnings: string[] }
+    | { type: 'error'; message: string };
+
+// Streamed chunks the page may have in flight before the worker pauses generation.
+const MAX_UNACKED_CHUNKS = 8;
+
+const post = (response: ZipWorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+let lastPercent = -1;
+let lastFile: string | null = null;
+const reportProgress = (percent: number, currentFile: string | null) => {
+    const rounded = Math.floor(percent);
+    if (rounded === lastPercent && currentFile === lastFile) return;
+    lastPercent = rounded;
+    lastFile = currentFile;
+    post({ type: 'progress', percent: rounded, currentFile });
+};
+
+let unackedChunks = 0;
+let onAck: (() => void) | null = null;
+
+const buildZip = async (entries: ZipEntry[], stream: boolean) => {
+    const zip = createZip(entries);
+
+    if (!stream) {
+        const blob = await zip.generateAsync({ type: 'blob', streamFiles: true }, meta => reportProgress(meta.percent, meta.currentFile));
+        post({ type: 'zipped', blob });
+        return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        const helper = zip.generateInternalStream({ type: 'uint8array', streamFiles: true });
+        let paused = false;
+        onAck = () => {
+            unackedChunks--;
+            if (paused && unackedChunks < MAX_UNACKED_CHUNKS) {
+                paused = false;
+                helper.resume();
+            }
+        };
+        helper
+            .on('data', (chunk: Uint8Array, meta) => {
+                const data = chunk.slice();
+                post({ type: 'chunk', data }, [data.buffer]);
+                reportProgress(meta.percent, meta.currentFile);
+                if (++unackedChunks >= MAX_UNACKED_CHUNKS && !paused) {
+                    paused = true;
+                    helper.pause();
+                }
+            })
+            .on('error', reject)
+            .on('end', () => resolve())
+            .resume();
+    });
+    post({ type: 'zipped', blob: null });
+};
+
+self.onmessage = async (event: MessageEvent<ZipWorkerRequest>) => {
+    const request = event.data;
+    try {
+        if (request.type === 'ack') {
+            onAck?.();
+        } else if (request.type === 'zip') {
+            await buildZip(request.entries, request.stream);
+        } else if (request.type === 'extract') {
+            const warnings: string[] = [];
+            const files = await extractArchive(request.archive, request.archivePath, request.maxDepth, warnings, reportProgress);
+            reportProgress(100, null);
+            post({ type: 'extracted', files, warnings });
+        }
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : 'The ZIP worker failed.' });
+    }
+};